@@ -39,11 +39,14 @@ export default defineConfig({
             { text: "Account", link: "/resources/account" },
             { text: "Contacts", link: "/resources/contacts" },
             { text: "Products", link: "/resources/products" },
+            { text: "Tags", link: "/resources/tags" },
+            { text: "Price Lists", link: "/resources/price-lists" },
           ],
         },
         {
           text: "Guias",
           items: [
+            { text: "Configuração", link: "/guides/configuration" },
             { text: "Tratamento de Erros", link: "/guides/error-handling" },
             { text: "Paginação", link: "/guides/pagination" },
             { text: "Operações em Lote", link: "/guides/batch-operations" },
@@ -0,0 +1,137 @@
+import { createHash } from "node:crypto";
+import { encodeValue } from "./encoding.js";
+import type { TinyCacheStore } from "./types/client.js";
+
+/**
+ * Tempo de vida padrão (ms) das respostas armazenadas, por endpoint.
+ *
+ * Apenas endpoints de leitura de registros individuais são armazenados
+ * por padrão; outros endpoints GET podem ser ativados via `cache.ttlMs`.
+ *
+ * @internal
+ */
+export const DEFAULT_CACHE_TTLS: Readonly<Record<string, number>> = {
+  "/info.php": 5 * 60_000,
+  "/produto.obter.php": 60_000,
+  "/contato.obter.php": 60_000,
+};
+
+interface MemoryCacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Armazenamento em memória com descarte do item menos usado (LRU).
+ *
+ * É o armazenamento padrão do cache do SDK. Quando o número de itens
+ * ultrapassa `maxEntries`, o item acessado há mais tempo é removido.
+ * Os itens expirados são removidos na leitura.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new TinySDK(token, {
+ *   cache: { store: new MemoryCacheStore(1000) },
+ * });
+ * ```
+ */
+export class MemoryCacheStore implements TinyCacheStore {
+  private readonly maxEntries: number;
+  // O Map preserva a ordem de inserção: o primeiro item é o menos usado
+  private readonly entries = new Map<string, MemoryCacheEntry>();
+
+  /**
+   * @param maxEntries Número máximo de itens armazenados (padrão: 500)
+   */
+  constructor(maxEntries = 500) {
+    if (!(maxEntries > 0)) {
+      throw new Error(
+        "O número máximo de itens do cache deve ser um número positivo."
+      );
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  /** Número de itens armazenados (inclusive os já expirados). */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Reinsere para marcar o item como o mais recente
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  deleteByPrefix(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Monta a chave de cache de uma requisição GET. Os parâmetros são
+ * codificados como na requisição e ordenados, para que a mesma consulta
+ * gere sempre a mesma chave.
+ *
+ * @internal
+ */
+export function buildCacheKey(
+  keyPrefix: string,
+  endpoint: string,
+  params: Record<string, any>
+): string {
+  const sorted = Object.keys(params)
+    .sort()
+    .map((key) => [key, encodeValue(params[key])])
+    .filter(([, value]) => value !== undefined);
+  return `${cacheKeyPrefix(keyPrefix, endpoint)}${JSON.stringify(sorted)}`;
+}
+
+/**
+ * Prefixo padrão das chaves: `tiny:` seguido de um hash curto do token,
+ * para que contas diferentes não compartilhem respostas num mesmo
+ * armazenamento. O token em si nunca aparece nas chaves.
+ *
+ * @internal
+ */
+export function defaultCacheKeyPrefix(token: string): string {
+  const hash = createHash("sha256").update(token).digest("hex");
+  return `tiny:${hash.slice(0, 16)}`;
+}
+
+/**
+ * Prefixo comum a todas as chaves de um endpoint, usado na invalidação.
+ *
+ * @internal
+ */
+export function cacheKeyPrefix(keyPrefix: string, endpoint: string): string {
+  return `${keyPrefix}:${endpoint}?`;
+}
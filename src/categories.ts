@@ -0,0 +1,90 @@
+import type { ProductCategory, ProductCategoryPath } from "./types/products.js";
+
+/**
+ * Separador entre os níveis no caminho de uma categoria, como usado no
+ * campo `categoria` dos produtos.
+ */
+export const CATEGORY_PATH_SEPARATOR = " >> ";
+
+/**
+ * Divide um caminho de categoria ("A >> B >> C") em níveis, ignorando os
+ * espaços ao redor de cada nível.
+ */
+function splitPath(path: string | string[]): string[] {
+  const levels = Array.isArray(path) ? path : path.split(">>");
+  return levels.map((level) => level.trim()).filter(Boolean);
+}
+
+/**
+ * Encontra uma categoria da árvore pelo caminho completo.
+ *
+ * Cada nível é comparado exatamente com a `descricao` da categoria
+ * (após remover espaços nas pontas).
+ *
+ * @param tree Árvore retornada por `sdk.product.getCategoryTree()`
+ * @param path Caminho no formato "A >> B >> C" ou como lista de níveis
+ * @returns A categoria encontrada ou `undefined`
+ *
+ * @example
+ * ```typescript
+ * const tree = await sdk.product.getCategoryTree();
+ * const categoria = findCategoryByPath(tree, "Roupas >> Camisetas");
+ * ```
+ */
+export function findCategoryByPath(
+  tree: ProductCategory[],
+  path: string | string[]
+): ProductCategory | undefined {
+  const levels = splitPath(path);
+  if (levels.length === 0) {
+    return undefined;
+  }
+
+  let nodes = tree;
+  let found: ProductCategory | undefined;
+  for (const level of levels) {
+    found = nodes.find((node) => node.descricao.trim() === level);
+    if (!found) {
+      return undefined;
+    }
+    nodes = found.nodes;
+  }
+  return found;
+}
+
+/**
+ * Lista todas as categorias da árvore com o caminho completo, no formato
+ * aceito pelo campo `categoria` na inclusão e alteração de produtos.
+ *
+ * As categorias são listadas em pré-ordem: cada categoria aparece antes
+ * das suas subcategorias.
+ *
+ * @param tree Árvore retornada por `sdk.product.getCategoryTree()`
+ * @returns Categorias com o caminho completo
+ *
+ * @example
+ * ```typescript
+ * const caminhos = flattenCategoryTree(await sdk.product.getCategoryTree());
+ * // [{ id: 1, caminho: "Roupas", ... }, { id: 2, caminho: "Roupas >> Camisetas", ... }]
+ * ```
+ */
+export function flattenCategoryTree(
+  tree: ProductCategory[]
+): ProductCategoryPath[] {
+  const paths: ProductCategoryPath[] = [];
+
+  const visit = (nodes: ProductCategory[], ancestors: string[]) => {
+    for (const categoria of nodes) {
+      const levels = [...ancestors, categoria.descricao.trim()];
+      paths.push({
+        id: categoria.id,
+        caminho: levels.join(CATEGORY_PATH_SEPARATOR),
+        categoria,
+      });
+      visit(categoria.nodes, levels);
+    }
+  };
+
+  visit(tree, []);
+  return paths;
+}
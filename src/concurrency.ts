@@ -0,0 +1,38 @@
+/**
+ * Aplica uma função assíncrona a cada item, com no máximo `concurrency`
+ * execuções simultâneas, preservando a ordem dos resultados.
+ *
+ * Na primeira falha, nenhum novo item é iniciado e o erro é lançado.
+ *
+ * @param items Os itens a processar
+ * @param concurrency Número máximo de execuções simultâneas
+ * @param fn Função aplicada a cada item
+ * @internal
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const limit = Math.max(1, Math.floor(concurrency));
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
@@ -0,0 +1,104 @@
+/**
+ * Converte um valor de parâmetro ou de campo do corpo para o formato
+ * esperado pela API v2 do Tiny.
+ *
+ * - `undefined` e `null` são omitidos (retorna `undefined`);
+ * - booleanos viram `"true"` / `"false"`;
+ * - datas viram `dd/mm/aaaa` ou, quando têm horário, `dd/mm/aaaa hh:mm:ss`
+ *   (no horário de Brasília, independente do fuso do processo);
+ * - objetos e arrays são serializados em JSON, formato usado pela API
+ *   nos campos estruturados (ex: `produto`, `contato`), com as mesmas
+ *   regras aplicadas aos campos aninhados (ver `jsonReplacer`);
+ * - os demais valores são convertidos com `String()`.
+ *
+ * @internal
+ */
+export function encodeValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value === "boolean") {
+    return value ? "true" : "false";
+  }
+
+  if (value instanceof Date) {
+    return formatTinyDate(value);
+  }
+
+  if (typeof value === "object") {
+    return JSON.stringify(value, jsonReplacer);
+  }
+
+  return String(value);
+}
+
+/**
+ * Replacer de `JSON.stringify` para os campos estruturados: datas
+ * aninhadas seguem o formato do Tiny e campos `undefined` ou `null` são
+ * omitidos. O valor é lido de `this[key]` porque o `JSON.stringify` já
+ * chamou `Date.prototype.toJSON` antes de chegar ao replacer.
+ */
+function jsonReplacer(
+  this: Record<string, unknown>,
+  key: string,
+  value: unknown
+): unknown {
+  const raw = this[key];
+
+  if (raw instanceof Date) {
+    return formatTinyDate(raw);
+  }
+
+  return raw === null ? undefined : value;
+}
+
+/**
+ * Adiciona os campos informados ao destino (query string ou corpo de
+ * formulário), codificando cada valor com `encodeValue`.
+ *
+ * @internal
+ */
+export function appendEncoded(
+  target: URLSearchParams,
+  values: Record<string, unknown>
+): void {
+  for (const [key, value] of Object.entries(values)) {
+    const encoded = encodeValue(value);
+    if (encoded !== undefined) {
+      target.append(key, encoded);
+    }
+  }
+}
+
+/**
+ * Fuso horário em que a API interpreta as datas enviadas.
+ */
+const TINY_TIME_ZONE = "America/Sao_Paulo";
+
+const tinyDateFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: TINY_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+/**
+ * Formata uma data no padrão brasileiro usado pela API, no horário de
+ * Brasília: o mesmo instante gera o mesmo texto em qualquer servidor.
+ */
+function formatTinyDate(date: Date): string {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of tinyDateFormat.formatToParts(date)) {
+    parts[type] = value;
+  }
+
+  const day = `${parts.day}/${parts.month}/${parts.year}`;
+  const time = `${parts.hour}:${parts.minute}:${parts.second}`;
+
+  return time === "00:00:00" ? day : `${day} ${time}`;
+}
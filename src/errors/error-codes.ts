@@ -0,0 +1,149 @@
+/**
+ * Categoria de um código de erro da API v2, usada para escolher a
+ * subclasse de `TinyApiError` lançada pelo SDK.
+ */
+export type TinyErrorCategory =
+  "auth" | "rate_limit" | "not_found" | "validation" | "api";
+
+/**
+ * Descrição de um código de erro documentado da API v2.
+ */
+export interface TinyErrorCodeInfo {
+  /** Descrição oficial do código. */
+  descricao: string;
+
+  /** Categoria do erro (define a subclasse lançada). */
+  categoria: TinyErrorCategory;
+
+  /** Indica se a API rejeitou a requisição de forma transitória. */
+  retryable: boolean;
+}
+
+/**
+ * Mapeamento dos valores de `codigo_erro` documentados na API v2 do Tiny.
+ */
+export const TINY_ERROR_CODES: Readonly<Record<string, TinyErrorCodeInfo>> = {
+  "1": {
+    descricao: "Token não informado",
+    categoria: "auth",
+    retryable: false,
+  },
+  "2": {
+    descricao: "Token inválido ou não encontrado",
+    categoria: "auth",
+    retryable: false,
+  },
+  "3": {
+    descricao: "XML mal formado ou com erros",
+    categoria: "validation",
+    retryable: false,
+  },
+  "4": {
+    descricao: "Erro de processamento de XML",
+    categoria: "api",
+    retryable: false,
+  },
+  "5": {
+    descricao: "API bloqueada ou sem acesso",
+    categoria: "auth",
+    retryable: false,
+  },
+  "6": {
+    descricao:
+      "API bloqueada momentaneamente - muitos acessos no último minuto",
+    categoria: "rate_limit",
+    retryable: true,
+  },
+  "7": {
+    descricao: "Espaço da empresa esgotado",
+    categoria: "api",
+    retryable: false,
+  },
+  "8": {
+    descricao: "Empresa bloqueada",
+    categoria: "auth",
+    retryable: false,
+  },
+  "9": {
+    descricao: "Números de sequência em duplicidade",
+    categoria: "validation",
+    retryable: false,
+  },
+  "10": {
+    descricao: "Parâmetro não informado",
+    categoria: "validation",
+    retryable: false,
+  },
+  "11": {
+    descricao: "API bloqueada momentaneamente - muitos acessos concorrentes",
+    categoria: "rate_limit",
+    retryable: true,
+  },
+  "20": {
+    descricao: "A consulta não retornou registros",
+    categoria: "not_found",
+    retryable: false,
+  },
+  "21": {
+    descricao: "A consulta retornou muitos registros",
+    categoria: "validation",
+    retryable: false,
+  },
+  "22": {
+    descricao: "O XML tem mais registros do que o permitido por lote de envio",
+    categoria: "validation",
+    retryable: false,
+  },
+  "23": {
+    descricao: "A página que você está tentando obter não existe",
+    categoria: "not_found",
+    retryable: false,
+  },
+  "30": {
+    descricao: "Erro de duplicidade de registro",
+    categoria: "validation",
+    retryable: false,
+  },
+  "31": {
+    descricao: "Erros de validação",
+    categoria: "validation",
+    retryable: false,
+  },
+  "32": {
+    descricao: "Registro não localizado",
+    categoria: "not_found",
+    retryable: false,
+  },
+  "33": {
+    descricao: "Registro localizado em duplicidade",
+    categoria: "validation",
+    retryable: false,
+  },
+  "34": {
+    descricao: "Nota fiscal não autorizada",
+    categoria: "api",
+    retryable: false,
+  },
+  "35": {
+    descricao: "Erro inesperado",
+    categoria: "api",
+    retryable: false,
+  },
+  "99": {
+    descricao: "Sistema em manutenção",
+    categoria: "api",
+    retryable: true,
+  },
+};
+
+/**
+ * Obtém a descrição de um código de erro da API v2.
+ *
+ * @param codigo O valor de `codigo_erro` retornado pela API
+ * @returns As informações do código, ou `undefined` se não for documentado
+ */
+export function getTinyErrorCodeInfo(
+  codigo: string | number
+): TinyErrorCodeInfo | undefined {
+  return TINY_ERROR_CODES[String(codigo)];
+}
@@ -0,0 +1,25 @@
+import { TinyError } from "./tiny-error.js";
+
+/**
+ * Erro lançado quando uma busca que deveria identificar um único registro
+ * (ex: produto por código ou GTIN) encontra mais de um.
+ *
+ * Não é uma falha da API: a pesquisa foi concluída, mas o critério
+ * informado não é suficiente para escolher um registro. Os IDs dos
+ * registros encontrados ficam em `ids` (a busca pode parar no segundo
+ * registro, quando a ambiguidade já está decidida).
+ */
+export class TinyAmbiguousResultError extends TinyError {
+  /** IDs dos registros que atendem ao critério informado. */
+  public readonly ids: number[];
+
+  constructor(message: string, endpoint: string, ids: number[]) {
+    super(message, { endpoint });
+
+    this.name = "TinyAmbiguousResultError";
+
+    this.ids = ids;
+
+    Object.setPrototypeOf(this, TinyAmbiguousResultError.prototype);
+  }
+}
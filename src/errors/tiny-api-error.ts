@@ -1,3 +1,6 @@
+import { getTinyErrorCodeInfo } from "./error-codes.js";
+import { TinyError } from "./tiny-error.js";
+
 /**
  * Interface que representa um único erro retornado pela API v2.
  * Ex: { "erro": "Pedido não localizado" }
@@ -15,14 +18,30 @@ interface ApiErrorResponse {
   erros: ApiErrorDetail[];
 }
 
+/**
+ * Contexto da requisição que originou o erro da API.
+ */
+interface ApiErrorContext {
+  /** O endpoint chamado (ex: /produto.obter.php). */
+  endpoint?: string;
+
+  /** O status HTTP da resposta. */
+  status?: number;
+}
+
 /**
  * Erro personalizado para falhas da API v2 do Tiny ERP.
  *
- * Esta classe estende o `Error` padrão do JavaScript, mas adiciona
+ * Esta classe estende o `TinyError`, mas adiciona
  * propriedades específicas da API, como `codigo` e `erros`,
  * para que o utilizador do SDK possa tratar os erros de forma programática.
+ *
+ * O SDK lança uma subclasse específica conforme o `codigo_erro`
+ * (`TinyAuthError`, `TinyRateLimitError`, `TinyNotFoundError`,
+ * `TinyValidationError`); códigos sem categoria específica geram
+ * um `TinyApiError` genérico.
  */
-export class TinyApiError extends Error {
+export class TinyApiError extends TinyError {
   /** O código de erro retornado pela API (ex: 32). */
   public readonly codigo: string | number;
 
@@ -32,20 +51,102 @@ export class TinyApiError extends Error {
   /** O array de erros detalhados. */
   public readonly erros: ApiErrorDetail[];
 
-  constructor(errorResponse: ApiErrorResponse) {
+  /** A descrição documentada do código de erro, se conhecida. */
+  public readonly descricao?: string;
+
+  constructor(errorResponse: ApiErrorResponse, context: ApiErrorContext = {}) {
     const primaryErrorMessage =
       errorResponse.erros && errorResponse.erros[0]
         ? errorResponse.erros[0].erro
         : "Ocorreu um erro desconhecido na API do Tiny.";
 
-    super(primaryErrorMessage);
+    const info = getTinyErrorCodeInfo(errorResponse.codigo_erro);
+
+    super(primaryErrorMessage, {
+      endpoint: context.endpoint,
+      status: context.status,
+      retryable: info?.retryable ?? false,
+    });
 
     this.name = "TinyApiError";
 
     this.codigo = errorResponse.codigo_erro;
     this.statusProcessamento = errorResponse.status_processamento;
     this.erros = errorResponse.erros;
+    this.descricao = info?.descricao;
 
     Object.setPrototypeOf(this, TinyApiError.prototype);
   }
 }
+
+/**
+ * Token ausente, inválido ou conta sem acesso à API
+ * (códigos 1, 2, 5 e 8).
+ */
+export class TinyAuthError extends TinyApiError {
+  constructor(errorResponse: ApiErrorResponse, context: ApiErrorContext = {}) {
+    super(errorResponse, context);
+    this.name = "TinyAuthError";
+    Object.setPrototypeOf(this, TinyAuthError.prototype);
+  }
+}
+
+/**
+ * API bloqueada momentaneamente por excesso de acessos
+ * (códigos 6 e 11). Sempre transitório.
+ */
+export class TinyRateLimitError extends TinyApiError {
+  constructor(errorResponse: ApiErrorResponse, context: ApiErrorContext = {}) {
+    super(errorResponse, context);
+    this.name = "TinyRateLimitError";
+    Object.setPrototypeOf(this, TinyRateLimitError.prototype);
+  }
+}
+
+/**
+ * Registro não localizado ou consulta sem resultados
+ * (códigos 20, 23 e 32).
+ */
+export class TinyNotFoundError extends TinyApiError {
+  constructor(errorResponse: ApiErrorResponse, context: ApiErrorContext = {}) {
+    super(errorResponse, context);
+    this.name = "TinyNotFoundError";
+    Object.setPrototypeOf(this, TinyNotFoundError.prototype);
+  }
+}
+
+/**
+ * Dados enviados inválidos, incompletos ou duplicados
+ * (códigos 3, 9, 10, 21, 22, 30, 31 e 33).
+ */
+export class TinyValidationError extends TinyApiError {
+  constructor(errorResponse: ApiErrorResponse, context: ApiErrorContext = {}) {
+    super(errorResponse, context);
+    this.name = "TinyValidationError";
+    Object.setPrototypeOf(this, TinyValidationError.prototype);
+  }
+}
+
+/**
+ * Cria o erro adequado para a resposta de erro da API, escolhendo a
+ * subclasse de `TinyApiError` de acordo com o `codigo_erro`.
+ *
+ * @internal
+ */
+export function createTinyApiError(
+  errorResponse: ApiErrorResponse,
+  context: ApiErrorContext = {}
+): TinyApiError {
+  switch (getTinyErrorCodeInfo(errorResponse.codigo_erro)?.categoria) {
+    case "auth":
+      return new TinyAuthError(errorResponse, context);
+    case "rate_limit":
+      return new TinyRateLimitError(errorResponse, context);
+    case "not_found":
+      return new TinyNotFoundError(errorResponse, context);
+    case "validation":
+      return new TinyValidationError(errorResponse, context);
+    default:
+      return new TinyApiError(errorResponse, context);
+  }
+}
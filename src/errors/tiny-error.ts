@@ -0,0 +1,59 @@
+/**
+ * Informações de contexto comuns a todos os erros do SDK.
+ */
+export interface TinyErrorOptions {
+  /** O endpoint chamado (ex: /produto.obter.php). */
+  endpoint?: string;
+
+  /** O status HTTP da resposta, quando houve resposta. */
+  status?: number;
+
+  /** Indica se a falha é transitória e a requisição pode ser repetida. */
+  retryable?: boolean;
+
+  /** O erro original que causou esta falha. */
+  cause?: unknown;
+}
+
+/**
+ * Classe base de todos os erros lançados pelo SDK.
+ *
+ * Permite capturar qualquer falha do SDK com um único `instanceof` e
+ * expõe o endpoint chamado, o status HTTP e se a falha é transitória.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await sdk.product.getById(123);
+ * } catch (error) {
+ *   if (error instanceof TinyError && error.retryable) {
+ *     // Agendar nova tentativa
+ *   }
+ * }
+ * ```
+ */
+export class TinyError extends Error {
+  /** O endpoint chamado (ex: /produto.obter.php). */
+  public readonly endpoint?: string;
+
+  /** O status HTTP da resposta (indefinido quando não houve resposta). */
+  public readonly status?: number;
+
+  /** Indica se a falha é transitória e a requisição pode ser repetida. */
+  public readonly retryable: boolean;
+
+  constructor(message: string, options: TinyErrorOptions = {}) {
+    super(
+      message,
+      options.cause !== undefined ? { cause: options.cause } : undefined
+    );
+
+    this.name = "TinyError";
+
+    this.endpoint = options.endpoint;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+
+    Object.setPrototypeOf(this, TinyError.prototype);
+  }
+}
@@ -0,0 +1,29 @@
+import { TinyError } from "./tiny-error.js";
+
+/**
+ * Erro lançado quando a API responde com algo que não é o JSON esperado
+ * (ex: página HTML de erro 502, corpo vazio ou JSON sem `retorno`).
+ *
+ * É considerado transitório (`retryable: true`) quando o status HTTP
+ * indica uma falha temporária do servidor (408, 429 ou 5xx) e a requisição
+ * pode ser repetida sem risco de duplicidade (ver `TinyNetworkError`).
+ */
+export class TinyInvalidResponseError extends TinyError {
+  constructor(
+    message: string,
+    endpoint: string,
+    status: number,
+    idempotent = true
+  ) {
+    super(message, {
+      endpoint,
+      status,
+      retryable:
+        idempotent && (status === 408 || status === 429 || status >= 500),
+    });
+
+    this.name = "TinyInvalidResponseError";
+
+    Object.setPrototypeOf(this, TinyInvalidResponseError.prototype);
+  }
+}
@@ -0,0 +1,25 @@
+import { TinyError } from "./tiny-error.js";
+
+/**
+ * Erro lançado quando não foi possível obter resposta da API do Tiny
+ * (ex: sem conexão, falha de DNS, conexão recusada ou encerrada).
+ *
+ * Não há status HTTP nem `codigo_erro`, pois a API não chegou a responder.
+ * É considerado transitório (`retryable: true`), exceto nos endpoints que
+ * criam registros ou lançam movimentações de estoque: a API pode ter
+ * processado a requisição, e repeti-la poderia duplicar o registro.
+ */
+export class TinyNetworkError extends TinyError {
+  constructor(
+    message: string,
+    endpoint: string,
+    cause?: unknown,
+    idempotent = true
+  ) {
+    super(message, { endpoint, retryable: idempotent, cause });
+
+    this.name = "TinyNetworkError";
+
+    Object.setPrototypeOf(this, TinyNetworkError.prototype);
+  }
+}
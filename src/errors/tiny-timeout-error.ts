@@ -0,0 +1,34 @@
+import { TinyError } from "./tiny-error.js";
+
+/**
+ * Erro lançado quando uma requisição à API do Tiny excede o tempo limite.
+ *
+ * É distinto do `TinyApiError`: indica que a API não respondeu a tempo,
+ * e não que ela tenha retornado um erro de negócio. O cancelamento
+ * explícito via `AbortSignal` não gera este erro, e sim o motivo
+ * (`reason`) do próprio sinal.
+ *
+ * Assim como o `TinyNetworkError`, só é considerado transitório
+ * (`retryable: true`) quando a requisição pode ser repetida sem risco de
+ * duplicidade.
+ */
+export class TinyTimeoutError extends TinyError {
+  /** O endpoint que excedeu o tempo limite (ex: /produto.obter.php). */
+  declare public readonly endpoint: string;
+
+  /** O tempo limite aplicado, em milissegundos. */
+  public readonly timeout: number;
+
+  constructor(endpoint: string, timeout: number, idempotent = true) {
+    super(
+      `A requisição para ${endpoint} excedeu o tempo limite de ${timeout}ms.`,
+      { endpoint, retryable: idempotent }
+    );
+
+    this.name = "TinyTimeoutError";
+
+    this.timeout = timeout;
+
+    Object.setPrototypeOf(this, TinyTimeoutError.prototype);
+  }
+}
@@ -0,0 +1,105 @@
+import type { TinyHighWaterMarkStore } from "./types/client.js";
+
+/**
+ * Margem de segurança (ms) subtraída do início de cada consulta de
+ * alterações (`changesSince()`, `stockUpdatesSince()`) ao calcular
+ * `proximaConsulta`.
+ *
+ * Cobre a diferença entre o relógio do servidor e o do Tiny e as
+ * alterações gravadas enquanto a consulta começava, de modo que nenhuma
+ * delas seja perdida. Em troca, os registros alterados dentro da margem
+ * são entregues de novo na execução seguinte, por isso o processamento
+ * deve ser idempotente (ex: gravar o saldo, não somar a diferença).
+ */
+export const SYNC_OVERLAP_MS = 60_000;
+
+/**
+ * Data a informar na próxima consulta incremental: o início da consulta
+ * atual, recuada de `SYNC_OVERLAP_MS`.
+ *
+ * @internal
+ */
+export function nextSyncDate(): Date {
+  return new Date(Date.now() - SYNC_OVERLAP_MS);
+}
+
+/**
+ * Marca d'água (high-water mark) de uma sincronização incremental: a data
+ * a partir da qual a próxima consulta de alterações deve começar.
+ *
+ * A marca só avança depois que as alterações obtidas foram processadas
+ * com sucesso; se o processamento falhar, a próxima execução consulta
+ * novamente o mesmo intervalo. A `proximaConsulta` informada pelas
+ * consultas já vem recuada de `SYNC_OVERLAP_MS`.
+ *
+ * @example
+ * ```typescript
+ * const marca = new HighWaterMark(store, "estoque", new Date(2024, 0, 1));
+ *
+ * await marca.sync(
+ *   (desde) => sdk.product.stockUpdatesSince(desde),
+ *   ({ produtos }) => marketplace.updateInventory(produtos)
+ * );
+ * ```
+ */
+export class HighWaterMark {
+  private readonly store: TinyHighWaterMarkStore;
+  private readonly key: string;
+  private readonly initial: Date;
+
+  /**
+   * @param store Armazenamento onde a marca é gravada
+   * @param key Chave da marca no armazenamento (ex: "estoque")
+   * @param initial Data usada enquanto nenhuma marca foi gravada
+   */
+  constructor(store: TinyHighWaterMarkStore, key: string, initial: Date) {
+    this.store = store;
+    this.key = key;
+    this.initial = initial;
+  }
+
+  /**
+   * Obtém a marca gravada ou, se ausente, a data inicial.
+   *
+   * @throws {Error} Se o valor gravado não for uma data válida
+   */
+  async get(): Promise<Date> {
+    const raw = await this.store.get(this.key);
+    if (raw === undefined) {
+      return new Date(this.initial);
+    }
+
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(
+        `O valor gravado para a marca "${this.key}" não é uma data válida.`
+      );
+    }
+    return date;
+  }
+
+  /** Grava a marca. */
+  async set(date: Date): Promise<void> {
+    await this.store.set(this.key, date.toISOString());
+  }
+
+  /**
+   * Executa um ciclo de sincronização: obtém as alterações desde a marca,
+   * processa-as e, em caso de sucesso, avança a marca para a
+   * `proximaConsulta` informada no resultado.
+   *
+   * @param fetchChanges Consulta as alterações desde a data informada
+   * (ex: `sdk.product.stockUpdatesSince`)
+   * @param process Processa as alterações obtidas
+   * @returns O resultado da consulta
+   */
+  async sync<T extends { proximaConsulta: Date }>(
+    fetchChanges: (since: Date) => Promise<T>,
+    process: (result: T) => void | Promise<void>
+  ): Promise<T> {
+    const result = await fetchChanges(await this.get());
+    await process(result);
+    await this.set(result.proximaConsulta);
+    return result;
+  }
+}
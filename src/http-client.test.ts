@@ -0,0 +1,1458 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TinySDK } from "./index.js";
+import { TinyError } from "./errors/tiny-error.js";
+import {
+  TinyApiError,
+  TinyAuthError,
+  TinyNotFoundError,
+  TinyRateLimitError,
+  TinyValidationError,
+} from "./errors/tiny-api-error.js";
+import { TinyInvalidResponseError } from "./errors/tiny-invalid-response-error.js";
+import { TinyNetworkError } from "./errors/tiny-network-error.js";
+import { TinyTimeoutError } from "./errors/tiny-timeout-error.js";
+import { MemoryCacheStore } from "./cache.js";
+import type { TinyCacheStore } from "./types/client.js";
+
+const MOCK_TOKEN = "test_token_123";
+
+const mockInfoResponse = {
+  retorno: {
+    status_processamento: 3,
+    status: "OK",
+    conta: { razao_social: "Empresa Teste LTDA" },
+  },
+};
+
+const mockContactGetResponse = {
+  retorno: {
+    status_processamento: 3,
+    status: "OK",
+    contato: {
+      id: 101,
+      nome: "Cliente Teste",
+      tipos_contato: [],
+      pessoas_contato: [],
+    },
+  },
+};
+
+const mockQuotaErrorResponse = {
+  retorno: {
+    status_processamento: 1,
+    status: "Erro",
+    codigo_erro: 6,
+    erros: [{ erro: "API Bloqueada - Excedido o número de acessos a API" }],
+  },
+};
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), { status: 200 });
+
+// fetch que nunca responde, apenas rejeita quando o sinal é abortado
+const hangingFetch = () =>
+  vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () =>
+          reject(new DOMException("Aborted", "AbortError"))
+        );
+      })
+  );
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("TinyV2HttpClient", () => {
+  describe("opções do cliente", () => {
+    it("deve usar a baseUrl e o fetch informados nas opções", async () => {
+      const globalFetch = vi.fn();
+      vi.stubGlobal("fetch", globalFetch);
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockInfoResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        baseUrl: "http://localhost:4010/api2/",
+        fetch: fetchMock,
+      });
+      await sdk.account.getInfo();
+
+      expect(globalFetch).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenCalledWith(
+        `http://localhost:4010/api2/info.php?token=${MOCK_TOKEN}&formato=json`,
+        expect.any(Object)
+      );
+    });
+
+    it("deve enviar os cabeçalhos padrão e o User-Agent", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockInfoResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        headers: { "X-Request-Source": "catalog-sync" },
+        userAgent: "minha-integracao/2.0",
+      });
+      await sdk.account.getInfo();
+
+      const init = fetchMock.mock.calls[0][1] as RequestInit;
+      expect(init.headers).toEqual({
+        "X-Request-Source": "catalog-sync",
+        "User-Agent": "minha-integracao/2.0",
+      });
+    });
+
+    it("deve usar o logger informado em vez do console", async () => {
+      const consoleSpy = vi.spyOn(console, "error");
+      const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValue(new TypeError("fetch failed"));
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, logger });
+
+      await expect(sdk.account.getInfo()).rejects.toThrow("fetch failed");
+      expect(logger.error).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("limitador de requisições", () => {
+    it("deve enfileirar as requisições que excedem o limite por minuto", async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockContactGetResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        rateLimit: { requestsPerMinute: 2 },
+      });
+      const calls = Promise.all([
+        sdk.contact.getById(1),
+        sdk.contact.getById(2),
+        sdk.contact.getById(3),
+      ]);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      await calls;
+    });
+
+    it.each([undefined, 5])(
+      "não deve exceder o limite em nenhuma janela de 60 segundos (burst: %s)",
+      async (burst) => {
+        vi.useFakeTimers();
+        const dispatches: number[] = [];
+        const fetchMock = vi.fn().mockImplementation(async () => {
+          dispatches.push(Date.now());
+          return jsonResponse(mockContactGetResponse);
+        });
+
+        const sdk = new TinySDK(MOCK_TOKEN, {
+          fetch: fetchMock,
+          rateLimit: { requestsPerMinute: 10, burst },
+        });
+        const calls = Promise.all(
+          Array.from({ length: 40 }, (_, i) => sdk.contact.getById(i))
+        );
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fetchMock).toHaveBeenCalledTimes(burst ?? 1);
+
+        for (let i = 0; i < 60 * 10; i++) {
+          await vi.advanceTimersByTimeAsync(1_000);
+        }
+        await calls;
+        expect(dispatches).toHaveLength(40);
+
+        for (const inicio of dispatches) {
+          const naJanela = dispatches.filter(
+            (t) => t >= inicio && t < inicio + 60_000
+          );
+          expect(naJanela.length).toBeLessThanOrEqual(10);
+        }
+      }
+    );
+
+    it("deve aguardar e reenviar quando a API informa bloqueio por excesso de acessos", async () => {
+      vi.useFakeTimers();
+      const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse(mockQuotaErrorResponse))
+        .mockResolvedValueOnce(jsonResponse(mockInfoResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger,
+        rateLimit: { requestsPerMinute: 60, blockedBackoffMs: 10_000 },
+      });
+      const promise = sdk.account.getInfo();
+
+      await vi.advanceTimersByTimeAsync(9_999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual(mockInfoResponse.retorno.conta);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it("deve lançar o erro após esgotar os reenvios por bloqueio", async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockQuotaErrorResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: { debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+        rateLimit: {
+          requestsPerMinute: 60,
+          blockedBackoffMs: 1_000,
+          maxBlockedRetries: 2,
+        },
+      });
+      const promise = sdk.account.getInfo();
+      const assertion = expect(promise).rejects.toBeInstanceOf(TinyApiError);
+
+      await vi.advanceTimersByTimeAsync(5_000);
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("política de retry", () => {
+    const silentLogger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    it("deve repetir falhas de rede com backoff exponencial", async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(jsonResponse(mockInfoResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: silentLogger,
+        retry: { maxAttempts: 3, baseDelayMs: 100, jitter: false },
+      });
+      const promise = sdk.account.getInfo();
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(199);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual(mockInfoResponse.retorno.conta);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("deve repetir respostas não-JSON com status retentável", async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(new Response("<html>", { status: 503 }))
+        .mockResolvedValueOnce(jsonResponse(mockInfoResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: silentLogger,
+        retry: { baseDelayMs: 100, jitter: false },
+      });
+      const promise = sdk.account.getInfo();
+
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(promise).resolves.toEqual(mockInfoResponse.retorno.conta);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("não deve repetir erros da API que não são transitórios", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        jsonResponse({
+          retorno: {
+            status_processamento: 2,
+            status: "Erro",
+            codigo_erro: 32,
+            erros: [{ erro: "Token inválido ou expirado" }],
+          },
+        })
+      );
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: silentLogger,
+        retry: { maxAttempts: 5 },
+      });
+
+      await expect(sdk.account.getInfo()).rejects.toBeInstanceOf(TinyApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("não deve repetir falhas de rede em endpoints de inclusão", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValue(new TypeError("fetch failed"));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: silentLogger,
+        retry: { maxAttempts: 5 },
+      });
+
+      await expect(
+        sdk.contact.create([
+          { sequencia: 1, data: { nome: "Cliente", situacao: "A" } },
+        ])
+      ).rejects.toThrow("fetch failed");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("não deve repetir falhas de rede em movimentações de estoque", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValue(new TypeError("fetch failed"));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: silentLogger,
+        retry: { maxAttempts: 5 },
+      });
+
+      await expect(
+        sdk.product.updateStock({ idProduto: 1, tipo: "E", quantidade: 5 })
+      ).rejects.toThrow("fetch failed");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("deve repetir endpoints de inclusão quando a API rejeita por excesso de acessos", async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse(mockQuotaErrorResponse))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              registros: [
+                { registro: { sequencia: 1, status: "OK", id: 123 } },
+              ],
+            },
+          })
+        );
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: silentLogger,
+        retry: { baseDelayMs: 100, jitter: false },
+      });
+      const promise = sdk.contact.create([
+        { sequencia: 1, data: { nome: "Cliente", situacao: "A" } },
+      ]);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(promise).resolves.toEqual([
+        { sequencia: 1, status: "OK", id: 123 },
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("timeout e cancelamento", () => {
+    it("deve lançar TinyTimeoutError quando o timeout global é excedido", async () => {
+      vi.useFakeTimers();
+      const fetchMock = hangingFetch();
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, timeout: 1000 });
+      const promise = sdk.account.getInfo();
+      const assertion = expect(promise).rejects.toSatisfy(
+        (error) =>
+          error instanceof TinyTimeoutError &&
+          !(error instanceof TinyApiError) &&
+          error.endpoint === "/info.php" &&
+          error.timeout === 1000
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+    });
+
+    it("não deve marcar como transitório o timeout de uma inclusão", async () => {
+      vi.useFakeTimers();
+      const fetchMock = hangingFetch();
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, timeout: 1000 });
+      const promise = sdk.product.create([
+        { sequencia: 1, data: { nome: "Produto", unidade: "UN" } as any },
+      ]);
+      const assertion = expect(promise).rejects.toSatisfy(
+        (error) =>
+          error instanceof TinyTimeoutError &&
+          error.endpoint === "/produto.incluir.php" &&
+          error.retryable === false
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+    });
+
+    it("deve permitir sobrescrever o timeout por chamada", async () => {
+      vi.useFakeTimers();
+      const fetchMock = hangingFetch();
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, timeout: 1000 });
+      const promise = sdk.product.getById(123, { timeout: 5000 });
+      const assertion = expect(promise).rejects.toThrow(
+        "excedeu o tempo limite de 5000ms"
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(fetchMock.mock.calls[0][1].signal?.aborted).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(4000);
+      await assertion;
+    });
+
+    it("deve cancelar a requisição com o AbortSignal informado", async () => {
+      const fetchMock = hangingFetch();
+      const controller = new AbortController();
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+      const promise = sdk.contact.search(
+        "João",
+        {},
+        {
+          signal: controller.signal,
+        }
+      );
+      controller.abort(new Error("cancelado pelo chamador"));
+
+      await expect(promise).rejects.toThrow("cancelado pelo chamador");
+    });
+
+    it("não deve chamar o fetch se o sinal já estiver abortado", async () => {
+      const fetchMock = vi.fn();
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+      const act = sdk.account.getInfo({ signal: AbortSignal.abort() });
+
+      await expect(act).rejects.toHaveProperty("name", "AbortError");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("deve interromper a espera entre tentativas quando cancelada", async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValue(new TypeError("fetch failed"));
+      const controller = new AbortController();
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: { debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+        retry: { baseDelayMs: 10_000, jitter: false },
+      });
+      const promise = sdk.account.getInfo({ signal: controller.signal });
+      const assertion = expect(promise).rejects.toHaveProperty(
+        "name",
+        "AbortError"
+      );
+
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("deve retirar da fila do limitador as chamadas canceladas", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const controller = new AbortController();
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        rateLimit: { requestsPerMinute: 1 },
+      });
+      await sdk.account.getInfo();
+      const queued = sdk.account.getInfo({ signal: controller.signal });
+      controller.abort();
+
+      await expect(queued).rejects.toHaveProperty("name", "AbortError");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("middlewares", () => {
+    it("deve permitir alterar parâmetros e cabeçalhos no onRequest", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        jsonResponse({
+          retorno: {
+            status: "OK",
+            pagina: 2,
+            numero_paginas: 2,
+            produtos: [],
+          },
+        })
+      );
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        middleware: [
+          {
+            onRequest: (ctx) => {
+              ctx.headers["X-Trace-Id"] = "trace-123";
+              ctx.params.pagina = 2;
+            },
+          },
+        ],
+      });
+      await sdk.product.search("notebook");
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(
+        `https://api.tiny.com.br/api2/produtos.pesquisa.php?token=${MOCK_TOKEN}&formato=json&pesquisa=notebook&pagina=2`
+      );
+      expect(init.headers).toEqual({ "X-Trace-Id": "trace-123" });
+    });
+
+    it("deve entregar o retorno bruto e a duração no onResponse", async () => {
+      const onResponse = vi.fn();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockQuotaErrorResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        middleware: [{ onResponse }],
+      });
+
+      await expect(sdk.account.getInfo()).rejects.toBeInstanceOf(TinyApiError);
+      expect(onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpoint: "/info.php",
+          method: "GET",
+          status: 200,
+          attempt: 1,
+          retorno: mockQuotaErrorResponse.retorno,
+          durationMs: expect.any(Number),
+        })
+      );
+    });
+
+    it("deve chamar o onError a cada tentativa que falha", async () => {
+      vi.useFakeTimers();
+      const onError = vi.fn();
+      const networkError = new TypeError("fetch failed");
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValueOnce(networkError)
+        .mockResolvedValueOnce(jsonResponse(mockInfoResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger: { debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+        retry: { baseDelayMs: 100, jitter: false },
+        middleware: [{ onError }],
+      });
+      const promise = sdk.account.getInfo();
+
+      await vi.advanceTimersByTimeAsync(100);
+      await promise;
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toMatchObject({
+        endpoint: "/info.php",
+        attempt: 1,
+      });
+      expect(onError.mock.calls[0][0].error.message).toContain("fetch failed");
+    });
+
+    it("deve executar os middlewares na ordem de registro", async () => {
+      const order: string[] = [];
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockInfoResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        middleware: [
+          {
+            onRequest: () => void order.push("a:request"),
+            onResponse: () => void order.push("a:response"),
+          },
+          {
+            onRequest: async () => void order.push("b:request"),
+            onResponse: async () => void order.push("b:response"),
+          },
+        ],
+      });
+      await sdk.account.getInfo();
+
+      expect(order).toEqual([
+        "a:request",
+        "b:request",
+        "a:response",
+        "b:response",
+      ]);
+    });
+  });
+
+  describe("proteção do token", () => {
+    it("não deve emitir logs no console por padrão", async () => {
+      const consoleSpy = vi.spyOn(console, "error");
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValue(new TypeError("fetch failed"));
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      await expect(sdk.account.getInfo()).rejects.toThrow("fetch failed");
+      expect(consoleSpy).not.toHaveBeenCalled();
+    });
+
+    it("deve remover o token das mensagens de erro e dos logs", async () => {
+      const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValue(
+          new TypeError(
+            `connect ECONNREFUSED for https://api.tiny.com.br/api2/info.php?token=${MOCK_TOKEN}`
+          )
+        );
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, logger });
+
+      const error = await sdk.account.getInfo().catch((e: Error) => e);
+      expect(error.message).toContain("https://api.tiny.com.br/api2/info.php");
+      expect(error.message).not.toContain(MOCK_TOKEN);
+
+      const logged = JSON.stringify(
+        logger.error.mock.calls.map(([message, arg]) => [
+          message,
+          (arg as Error).message,
+          (arg as Error).stack,
+        ])
+      );
+      expect(logged).toContain("***");
+      expect(logged).not.toContain(MOCK_TOKEN);
+    });
+
+    it("deve remover o token da causa anexada ao TinyNetworkError", async () => {
+      const url = `https://api.tiny.com.br/api2/info.php?token=${MOCK_TOKEN}`;
+      const fetchMock = vi.fn().mockRejectedValue(
+        new TypeError("fetch failed", {
+          cause: new Error(`connect ECONNREFUSED ${url}`),
+        })
+      );
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const error = await sdk.account.getInfo().catch((e) => e);
+      expect(error).toBeInstanceOf(TinyNetworkError);
+      expect(error.cause.name).toBe("TypeError");
+      expect(error.cause.cause.message).toContain("ECONNREFUSED");
+
+      const serialized = JSON.stringify([
+        error.cause.message,
+        error.cause.stack,
+        error.cause.cause.message,
+        error.cause.cause.stack,
+      ]);
+      expect(serialized).not.toContain(MOCK_TOKEN);
+    });
+
+    it("deve remover o token da mensagem e do stack da causa", async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+        throw new Error("connect ECONNREFUSED " + url);
+      });
+
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const error = await sdk.account.getInfo().catch((e) => e);
+      expect(error.cause.message).toContain("ECONNREFUSED");
+      expect(error.cause.message).toContain("***");
+      expect(error.cause.message).not.toContain(MOCK_TOKEN);
+      expect(error.cause.stack).not.toContain(MOCK_TOKEN);
+    });
+
+    it("deve enviar o token no corpo quando tokenLocation é 'body'", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockInfoResponse));
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        tokenLocation: "body",
+      });
+      await sdk.account.getInfo();
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://api.tiny.com.br/api2/info.php");
+      expect(init.method).toBe("POST");
+      expect((init.body as URLSearchParams).toString()).toBe(
+        `token=${MOCK_TOKEN}&formato=json`
+      );
+    });
+
+    it("deve informar aos middlewares o método enviado quando tokenLocation é 'body'", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockInfoResponse));
+      const methods: string[] = [];
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        tokenLocation: "body",
+        middleware: [
+          {
+            onRequest: (ctx) => {
+              methods.push(ctx.method);
+            },
+            onResponse: (ctx) => {
+              methods.push(ctx.method);
+            },
+          },
+        ],
+      });
+      await sdk.account.getInfo();
+
+      expect(fetchMock.mock.calls[0][1].method).toBe("POST");
+      expect(methods).toEqual(["POST", "POST"]);
+    });
+  });
+
+  describe("hierarquia de erros", () => {
+    const errorResponse = (codigo_erro: number, erro: string) => ({
+      retorno: {
+        status_processamento: 2,
+        status: "Erro",
+        codigo_erro,
+        erros: [{ erro }],
+      },
+    });
+
+    it.each([
+      [2, TinyAuthError],
+      [6, TinyRateLimitError],
+      [32, TinyNotFoundError],
+      [31, TinyValidationError],
+      [35, TinyApiError],
+    ])(
+      "deve lançar a subclasse correta para o código %i",
+      async (codigo, ErrorClass) => {
+        const fetchMock = vi
+          .fn()
+          .mockResolvedValue(jsonResponse(errorResponse(codigo, "Falha")));
+        const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+        const error = await sdk.account.getInfo().catch((e) => e);
+
+        expect(error).toBeInstanceOf(ErrorClass);
+        expect(error).toBeInstanceOf(TinyApiError);
+        expect(error).toBeInstanceOf(TinyError);
+        expect(error.codigo).toBe(codigo);
+      }
+    );
+
+    it("deve expor o endpoint, o status e a descrição do código", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse(errorResponse(32, "Produto não localizado"))
+        );
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const error = await sdk.account.getInfo().catch((e) => e);
+
+      expect(error.message).toBe("Produto não localizado");
+      expect(error.endpoint).toBe("/info.php");
+      expect(error.status).toBe(200);
+      expect(error.descricao).toBe("Registro não localizado");
+      expect(error.retryable).toBe(false);
+    });
+
+    it("deve marcar o bloqueio por excesso de acessos como transitório", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockQuotaErrorResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const error = await sdk.account.getInfo().catch((e) => e);
+
+      expect(error).toBeInstanceOf(TinyRateLimitError);
+      expect(error.retryable).toBe(true);
+    });
+
+    it("deve lançar TinyNetworkError quando a requisição falha", async () => {
+      const cause = new TypeError("fetch failed");
+      const fetchMock = vi.fn().mockRejectedValue(cause);
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const error = await sdk.account.getInfo().catch((e) => e);
+
+      expect(error).toBeInstanceOf(TinyNetworkError);
+      expect(error).toBeInstanceOf(TinyError);
+      expect(error.endpoint).toBe("/info.php");
+      expect(error.status).toBeUndefined();
+      expect(error.retryable).toBe(true);
+      expect(error.cause).toBeInstanceOf(Error);
+      expect(error.cause).toMatchObject({
+        name: "TypeError",
+        message: "fetch failed",
+      });
+    });
+
+    it("não deve marcar como transitórias as falhas em endpoints de inclusão", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(
+          new Response("<html>Bad Gateway</html>", { status: 502 })
+        );
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+      const create = () =>
+        sdk.contact
+          .create([{ sequencia: 1, data: { nome: "Cliente", situacao: "A" } }])
+          .catch((e) => e);
+
+      const networkError = await create();
+      const invalidResponseError = await create();
+
+      expect(networkError).toBeInstanceOf(TinyNetworkError);
+      expect(networkError.endpoint).toBe("/contato.incluir.php");
+      expect(networkError.retryable).toBe(false);
+      expect(invalidResponseError).toBeInstanceOf(TinyInvalidResponseError);
+      expect(invalidResponseError.retryable).toBe(false);
+    });
+
+    it("deve marcar as falhas em endpoints de inclusão como transitórias com retryNonIdempotent", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValue(new TypeError("fetch failed"));
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        retry: { maxAttempts: 1, retryNonIdempotent: true },
+      });
+
+      const error = await sdk.product
+        .updateStock({ idProduto: 1, tipo: "E", quantidade: 5 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TinyNetworkError);
+      expect(error.retryable).toBe(true);
+    });
+
+    it("deve lançar TinyInvalidResponseError quando a resposta não é JSON", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response("<html>Bad Gateway</html>", { status: 502 })
+        );
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const error = await sdk.account.getInfo().catch((e) => e);
+
+      expect(error).toBeInstanceOf(TinyInvalidResponseError);
+      expect(error.status).toBe(502);
+      expect(error.retryable).toBe(true);
+    });
+
+    it("deve lançar TinyInvalidResponseError quando falta o objeto retorno", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ mensagem: "inesperado" }));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const error = await sdk.account.getInfo().catch((e) => e);
+
+      expect(error).toBeInstanceOf(TinyInvalidResponseError);
+      expect(error.status).toBe(200);
+      expect(error.retryable).toBe(false);
+    });
+  });
+
+  describe("cache de respostas", () => {
+    const mockContactUpdateResponse = {
+      retorno: {
+        status_processamento: 3,
+        status: "OK",
+        registros: [{ registro: { sequencia: 1, status: "OK", id: 101 } }],
+      },
+    };
+
+    it("não deve armazenar respostas quando o cache não está ativo", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      await sdk.account.getInfo();
+      await sdk.account.getInfo();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve devolver a resposta armazenada sem consultar a API", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, cache: {} });
+
+      const first = await sdk.account.getInfo();
+      const second = await sdk.account.getInfo();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+    });
+
+    it("deve separar as respostas pelos parâmetros da requisição", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockContactGetResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, cache: {} });
+
+      await sdk.contact.getById(101);
+      await sdk.contact.getById(102);
+      await sdk.contact.getById(101);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve consultar a API novamente após o tempo de vida", async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        cache: { ttlMs: { "/info.php": 1_000 } },
+      });
+
+      await sdk.account.getInfo();
+      await vi.advanceTimersByTimeAsync(999);
+      await sdk.account.getInfo();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await sdk.account.getInfo();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve respeitar os tempos de vida por endpoint", async () => {
+      const fetchMock = vi.fn().mockImplementation(async () =>
+        jsonResponse({
+          retorno: {
+            status_processamento: 3,
+            status: "OK",
+            pagina: 1,
+            numero_paginas: 1,
+            produtos: [],
+          },
+        })
+      );
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        cache: { ttlMs: { "/produtos.pesquisa.php": 30_000, "/info.php": 0 } },
+      });
+
+      await sdk.product.search("notebook");
+      await sdk.product.search("notebook");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockImplementation(async () => jsonResponse(mockInfoResponse));
+      await sdk.account.getInfo();
+      await sdk.account.getInfo();
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("não deve armazenar respostas de erro", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse({
+            retorno: {
+              status_processamento: 2,
+              status: "Erro",
+              codigo_erro: 35,
+              erros: [{ erro: "Erro inesperado" }],
+            },
+          })
+        )
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, cache: {} });
+
+      await expect(sdk.account.getInfo()).rejects.toBeInstanceOf(TinyApiError);
+      await sdk.account.getInfo();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve ignorar o cache quando a chamada usa cache: false", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, cache: {} });
+
+      await sdk.account.getInfo();
+      await sdk.account.getInfo({ cache: false });
+      await sdk.account.getInfo();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("não deve permitir que o chamador altere a resposta armazenada", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, cache: {} });
+
+      const first = await sdk.account.getInfo();
+      first.razao_social = "Alterada";
+      const second = await sdk.account.getInfo();
+
+      expect(second.razao_social).toBe("Empresa Teste LTDA");
+    });
+
+    it("deve invalidar as leituras do resource após uma alteração", async () => {
+      const fetchMock = vi.fn((url: string) =>
+        Promise.resolve(
+          jsonResponse(
+            url.includes("/contato.alterar.php")
+              ? mockContactUpdateResponse
+              : mockContactGetResponse
+          )
+        )
+      );
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock, cache: {} });
+
+      await sdk.contact.getById(101);
+      await sdk.contact.update([
+        { sequencia: 1, data: { id: 101, nome: "Novo Nome", situacao: "A" } },
+      ]);
+      await sdk.contact.getById(101);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("deve usar o armazenamento informado e o prefixo das chaves", async () => {
+      const entries = new Map<string, unknown>();
+      const store: TinyCacheStore = {
+        get: vi.fn(async (key: string) => entries.get(key)),
+        set: vi.fn(async (key: string, value: unknown) => {
+          entries.set(key, value);
+        }),
+        delete: vi.fn(async (key: string) => {
+          entries.delete(key);
+        }),
+        deleteByPrefix: vi.fn(),
+      };
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        cache: { store, keyPrefix: "conta-a" },
+      });
+
+      await sdk.account.getInfo();
+      await sdk.account.getInfo();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(store.set).toHaveBeenCalledWith(
+        "conta-a:/info.php?[]",
+        mockInfoResponse.retorno,
+        300_000
+      );
+      expect([...entries.keys()].join()).not.toContain(MOCK_TOKEN);
+    });
+
+    it("não deve compartilhar respostas entre tokens diferentes no mesmo armazenamento", async () => {
+      const store = new MemoryCacheStore();
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const contaA = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        cache: { store },
+      });
+      const contaB = new TinySDK("outro_token_456", {
+        fetch: fetchMock,
+        cache: { store },
+      });
+
+      await contaA.account.getInfo();
+      await contaB.account.getInfo();
+      await contaA.account.getInfo();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const [urlA] = fetchMock.mock.calls[0];
+      const [urlB] = fetchMock.mock.calls[1];
+      expect(new URL(urlA).searchParams.get("token")).toBe(MOCK_TOKEN);
+      expect(new URL(urlB).searchParams.get("token")).toBe("outro_token_456");
+    });
+
+    it("deve consultar a API quando o armazenamento falha", async () => {
+      const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const store: TinyCacheStore = {
+        get: () => Promise.reject(new Error("conexão recusada")),
+        set: () => Promise.reject(new Error("conexão recusada")),
+        delete: () => {},
+        deleteByPrefix: () => {},
+      };
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockInfoResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        logger,
+        cache: { store },
+      });
+
+      const info = await sdk.account.getInfo();
+
+      expect(info.razao_social).toBe("Empresa Teste LTDA");
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve descartar o item menos usado quando o MemoryCacheStore enche", () => {
+      const store = new MemoryCacheStore(2);
+
+      store.set("a", 1, 60_000);
+      store.set("b", 2, 60_000);
+      store.get("a");
+      store.set("c", 3, 60_000);
+
+      expect(store.get("a")).toBe(1);
+      expect(store.get("b")).toBeUndefined();
+      expect(store.get("c")).toBe(3);
+      expect(store.size).toBe(2);
+    });
+  });
+
+  describe("requisições simultâneas idênticas", () => {
+    // fetch que só responde quando `release` é chamado
+    const deferredFetch = () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      const fetchMock = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(init.signal!.reason)
+            );
+            gate.then(() => resolve(jsonResponse(mockContactGetResponse)));
+          })
+      );
+      return { fetchMock, release };
+    };
+
+    it("deve compartilhar uma única requisição entre GETs idênticos", async () => {
+      const { fetchMock, release } = deferredFetch();
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const calls = Promise.all([
+        sdk.contact.getById(101),
+        sdk.contact.getById(101),
+        sdk.contact.getById(101),
+      ]);
+      release();
+      const [first, second, third] = await calls;
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+      expect(third).toEqual(first);
+      expect(second).not.toBe(first);
+    });
+
+    it("não deve compartilhar requisições com parâmetros diferentes", async () => {
+      const { fetchMock, release } = deferredFetch();
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const calls = Promise.all([
+        sdk.contact.getById(101),
+        sdk.contact.getById(102),
+      ]);
+      release();
+      await calls;
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve enviar uma nova requisição após a anterior terminar", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockContactGetResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      await sdk.contact.getById(101);
+      await sdk.contact.getById(101);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve rejeitar todas as chamadas quando a requisição compartilhada falha", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockQuotaErrorResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      const results = await Promise.allSettled([
+        sdk.contact.getById(101),
+        sdk.contact.getById(101),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    });
+
+    it("não deve abortar a requisição compartilhada quando apenas uma chamada é cancelada", async () => {
+      const { fetchMock, release } = deferredFetch();
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+      const controller = new AbortController();
+
+      const cancelled = sdk.contact.getById(101, {
+        signal: controller.signal,
+      });
+      const other = sdk.contact.getById(101);
+      controller.abort();
+      release();
+
+      await expect(cancelled).rejects.toMatchObject({ name: "AbortError" });
+      await expect(other).resolves.toMatchObject({ id: 101 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("deve abortar a requisição compartilhada quando todas as chamadas são canceladas", async () => {
+      const { fetchMock } = deferredFetch();
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+      const controller = new AbortController();
+
+      const calls = Promise.allSettled([
+        sdk.contact.getById(101, { signal: controller.signal }),
+        sdk.contact.getById(101, { signal: controller.signal }),
+      ]);
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+      controller.abort();
+      await calls;
+
+      const init = fetchMock.mock.calls[0][1] as RequestInit;
+      expect(init.signal!.aborted).toBe(true);
+    });
+
+    it("não deve compartilhar requisições quando coalesceRequests é false", async () => {
+      const { fetchMock, release } = deferredFetch();
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        coalesceRequests: false,
+      });
+
+      const calls = Promise.all([
+        sdk.contact.getById(101),
+        sdk.contact.getById(101),
+      ]);
+      release();
+      await calls;
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("codificação de parâmetros e corpo", () => {
+    const mockSearchResponse = {
+      retorno: {
+        status_processamento: 3,
+        status: "OK",
+        pagina: 1,
+        numero_paginas: 1,
+        produtos: [],
+      },
+    };
+
+    it("deve omitir parâmetros indefinidos ou nulos na URL", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockSearchResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      await sdk.product.search("mouse", {
+        pagina: undefined,
+        situacao: null as any,
+        idTag: 7,
+      });
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect([...url.searchParams.keys()]).toEqual([
+        "token",
+        "formato",
+        "pesquisa",
+        "idTag",
+      ]);
+      expect(url.searchParams.get("idTag")).toBe("7");
+    });
+
+    it("deve codificar booleanos, datas, arrays e objetos de forma consistente", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockSearchResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        middleware: [
+          {
+            onRequest: (ctx) => {
+              Object.assign(ctx.params, {
+                ativo: false,
+                dataInicial: new Date("2024-01-05T00:00:00-03:00"),
+                dataAlteracao: new Date("2024-01-05T09:30:15-03:00"),
+                ids: [1, 2],
+                filtro: { tipo: "P" },
+              });
+            },
+          },
+        ],
+      });
+
+      await sdk.product.search("");
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.searchParams.get("ativo")).toBe("false");
+      expect(url.searchParams.get("dataInicial")).toBe("05/01/2024");
+      expect(url.searchParams.get("dataAlteracao")).toBe("05/01/2024 09:30:15");
+      expect(url.searchParams.get("ids")).toBe("[1,2]");
+      expect(url.searchParams.get("filtro")).toBe('{"tipo":"P"}');
+    });
+
+    it("deve enviar as datas no horário de Brasília, independente do TZ do processo", async () => {
+      const originalTz = process.env.TZ;
+      const instante = new Date("2026-10-19T15:00:00Z"); // 12:00 em Brasília
+      const meiaNoite = new Date("2026-10-19T03:00:00Z"); // 00:00 em Brasília
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockSearchResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        middleware: [
+          {
+            onRequest: (ctx) => {
+              Object.assign(ctx.params, {
+                dataAlteracao: instante,
+                dataInicial: meiaNoite,
+              });
+            },
+          },
+        ],
+      });
+
+      try {
+        for (const tz of ["UTC", "America/Sao_Paulo", "Asia/Tokyo"]) {
+          process.env.TZ = tz;
+          await sdk.product.search("");
+        }
+      } finally {
+        process.env.TZ = originalTz;
+      }
+
+      for (const [url] of fetchMock.mock.calls) {
+        const params = new URL(url).searchParams;
+        expect(params.get("dataAlteracao")).toBe("19/10/2026 12:00:00");
+        expect(params.get("dataInicial")).toBe("19/10/2026");
+      }
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("deve serializar em JSON os campos estruturados do corpo", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        jsonResponse({
+          retorno: {
+            status_processamento: 3,
+            status: "OK",
+            registros: [{ registro: { sequencia: 1, status: "OK", id: 9 } }],
+          },
+        })
+      );
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      await sdk.contact.update([
+        {
+          sequencia: 1,
+          data: { id: 9, nome: "Cliente", situacao: "A", fone: undefined },
+        },
+      ]);
+
+      const body = fetchMock.mock.calls[0][1].body as URLSearchParams;
+      const contato = JSON.parse(body.get("contato")!);
+      expect(contato.contatos[0].contato).toMatchObject({
+        id: 9,
+        nome: "Cliente",
+      });
+      expect(contato.contatos[0].contato).not.toHaveProperty("fone");
+      expect(body.toString()).not.toContain("undefined");
+    });
+
+    it("deve formatar as datas aninhadas e omitir os nulos nos campos estruturados", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        jsonResponse({
+          retorno: {
+            status_processamento: 3,
+            status: "OK",
+            registros: [{ registro: { sequencia: 1, status: "OK", id: 9 } }],
+          },
+        })
+      );
+      const sdk = new TinySDK(MOCK_TOKEN, { fetch: fetchMock });
+
+      await sdk.contact.update([
+        {
+          sequencia: 1,
+          data: {
+            id: 9,
+            nome: "Cliente",
+            data_nascimento: new Date("1990-05-20T00:00:00-03:00") as any,
+            obs: null as any,
+            pessoas_contato: [
+              { nome: "Ana", ultimo_contato: new Date("2026-10-19T15:00:00Z") },
+            ] as any,
+          },
+        },
+      ]);
+
+      const body = fetchMock.mock.calls[0][1].body as URLSearchParams;
+      const contato = JSON.parse(body.get("contato")!).contatos[0].contato;
+      expect(contato.data_nascimento).toBe("20/05/1990");
+      expect(contato.pessoas_contato[0].pessoa_contato.ultimo_contato).toBe(
+        "19/10/2026 12:00:00"
+      );
+      expect(contato).not.toHaveProperty("obs");
+    });
+
+    it("deve gerar a mesma chave de cache para parâmetros equivalentes", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse(mockSearchResponse));
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        fetch: fetchMock,
+        cache: { ttlMs: { "/produtos.pesquisa.php": 30_000 } },
+      });
+
+      await sdk.product.search("mouse", { idTag: 7, pagina: undefined });
+      await sdk.product.search("mouse", { idTag: 7 });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
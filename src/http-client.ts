@@ -1,7 +1,57 @@
-import { TinyApiError } from "./errors/tiny-api-error.js";
+import {
+  DEFAULT_CACHE_TTLS,
+  defaultCacheKeyPrefix,
+  MemoryCacheStore,
+  buildCacheKey,
+  cacheKeyPrefix,
+} from "./cache.js";
+import {
+  TinyApiError,
+  TinyRateLimitError,
+  createTinyApiError,
+} from "./errors/tiny-api-error.js";
+import { TinyInvalidResponseError } from "./errors/tiny-invalid-response-error.js";
+import { TinyNetworkError } from "./errors/tiny-network-error.js";
+import { TinyTimeoutError } from "./errors/tiny-timeout-error.js";
+import {
+  createRedactingLogger,
+  redactArg,
+  redactSecrets,
+  silentLogger,
+} from "./logger.js";
+import { appendEncoded } from "./encoding.js";
+import { RateLimiter } from "./rate-limiter.js";
+import {
+  computeBackoffDelay,
+  resolveRetryPolicy,
+  sleep,
+  type RetryPolicy,
+} from "./retry.js";
+import type {
+  TinyCacheStore,
+  TinyLogger,
+  TinyMiddleware,
+  TinyRequestContext,
+  TinyRequestOptions,
+  TinySDKOptions,
+} from "./types/client.js";
 
 const API_V2_BASE_URL = "https://api.tiny.com.br/api2";
 
+/**
+ * Endpoints que criam registros ou lançam movimentações de estoque e,
+ * portanto, não podem ser repetidos às cegas após uma falha de rede (a
+ * requisição pode ter sido processada).
+ */
+const NON_IDEMPOTENT_ENDPOINT = /\.(incluir|atualizar\.estoque)\.php$/;
+
+/**
+ * Endpoints que, em caso de sucesso, retornam o conteúdo diretamente (um
+ * array JSON), sem o objeto `retorno`. A resposta é normalizada como
+ * `{ status: "OK", itens: [...] }`; os erros continuam vindo em `retorno`.
+ */
+const BARE_ARRAY_ENDPOINTS = new Set(["/produtos.categorias.arvore.php"]);
+
 /**
  * Interface interna para definir as opções de uma requisição.
  */
@@ -21,122 +71,572 @@ type TinyApiResponse = {
   };
 };
 
+/**
+ * Requisição GET em andamento, compartilhada entre chamadas idênticas.
+ */
+interface InFlightRequest {
+  promise: Promise<TinyApiResponse["retorno"]>;
+  controller: AbortController;
+  /** Número de chamadas que ainda aguardam a resposta */
+  waiting: number;
+}
+
 /**
  * Cliente HTTP responsável por toda a comunicação com a API v2 do Tiny ERP.
  *
- * Abstrai a lógica de autenticação (token na URL) e a gestão de erros
+ * Abstrai a lógica de autenticação (token na URL ou no corpo) e a gestão de erros
  * (erros com status 200), convertendo-os em exceções (TinyApiError).
  */
 export class TinyV2HttpClient {
   private readonly token: string;
-  private readonly baseUrl: string = API_V2_BASE_URL;
+  private readonly baseUrl: string;
+  private readonly fetchFn: typeof fetch;
+  private readonly headers: Record<string, string>;
+  private readonly timeout?: number;
+  private readonly logger: TinyLogger;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly blockedBackoffMs: number;
+  private readonly maxBlockedRetries: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly middleware: TinyMiddleware[];
+  private readonly tokenLocation: "query" | "body";
+  private readonly cacheStore?: TinyCacheStore;
+  private readonly cacheTtls: Record<string, number>;
+  private readonly cacheKeyPrefix: string;
+  private readonly coalesceRequests: boolean;
+  private readonly inFlight = new Map<string, InFlightRequest>();
 
   /**
    * Cria uma nova instância do cliente da API v2.
    * @param token O seu API token do Tiny ERP.
+   * @param options Opções de configuração do cliente (URL base, fetch, etc.)
    */
-  constructor(token: string) {
+  constructor(token: string, options: TinySDKOptions = {}) {
     if (!token) {
       throw new Error(
         "O API token é obrigatório para instanciar o TinyV2HttpClient."
       );
     }
     this.token = token;
+    this.baseUrl = (options.baseUrl ?? API_V2_BASE_URL).replace(/\/+$/, "");
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.headers = {
+      ...options.headers,
+      ...(options.userAgent ? { "User-Agent": options.userAgent } : {}),
+    };
+    this.timeout = options.timeout;
+    // Todo log passa pela remoção do token, inclusive no logger do utilizador
+    this.logger = createRedactingLogger(options.logger ?? silentLogger, [
+      token,
+    ]);
+    this.tokenLocation = options.tokenLocation ?? "query";
+
+    if (options.rateLimit) {
+      this.rateLimiter = new RateLimiter(
+        options.rateLimit.requestsPerMinute,
+        options.rateLimit.burst
+      );
+    }
+    this.blockedBackoffMs = options.rateLimit?.blockedBackoffMs ?? 60_000;
+    this.maxBlockedRetries = options.rateLimit?.maxBlockedRetries ?? 3;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.middleware = options.middleware ?? [];
+
+    if (options.cache) {
+      this.cacheStore = options.cache.store ?? new MemoryCacheStore();
+    }
+    this.cacheTtls = { ...DEFAULT_CACHE_TTLS, ...options.cache?.ttlMs };
+    this.cacheKeyPrefix =
+      options.cache?.keyPrefix ?? defaultCacheKeyPrefix(token);
+    this.coalesceRequests = options.coalesceRequests ?? true;
   }
 
   /**
    * Executa uma requisição GET para um endpoint da API.
+   *
+   * Com o cache ativo e um tempo de vida definido para o endpoint, a
+   * resposta armazenada é devolvida sem consultar a API. Chamadas
+   * simultâneas idênticas (mesmo endpoint e parâmetros) compartilham
+   * uma única requisição.
    * @param endpoint O caminho do endpoint (ex: /produto.pesquisar.php)
    * @param params Um objeto com os parâmetros de busca (ex: { id: 123 })
+   * @param requestOptions Opções da chamada (AbortSignal, timeout, cache)
    */
-  public async get(endpoint: string, params: Record<string, any> = {}) {
-    return this.request(endpoint, {
-      method: "GET",
-      params,
-    });
+  public async get(
+    endpoint: string,
+    params: Record<string, any> = {},
+    requestOptions: TinyRequestOptions = {}
+  ) {
+    const ttl = this.cacheStore ? this.cacheTtls[endpoint] : 0;
+    const key = buildCacheKey(this.cacheKeyPrefix, endpoint, params);
+
+    if (ttl > 0 && requestOptions.cache !== false) {
+      const cached = await this.readCache(key);
+      if (cached !== undefined) {
+        this.logger.debug(`Resposta de ${endpoint} obtida do cache.`);
+        return cached;
+      }
+    }
+
+    const load = async (signal?: AbortSignal) => {
+      const retorno = await this.request(
+        endpoint,
+        { method: "GET", params },
+        { ...requestOptions, signal }
+      );
+      if (ttl > 0) {
+        await this.writeCache(key, retorno, ttl);
+      }
+      return retorno;
+    };
+
+    if (!this.coalesceRequests) {
+      return load(requestOptions.signal);
+    }
+    return this.coalesce(key, endpoint, load, requestOptions.signal);
+  }
+
+  /**
+   * Compartilha uma única requisição entre as chamadas simultâneas com a
+   * mesma chave.
+   *
+   * A requisição compartilhada tem o seu próprio sinal de cancelamento:
+   * uma chamada cancelada deixa de aguardar sem afetar as demais, e a
+   * requisição só é abortada quando todas as chamadas forem canceladas.
+   * Cada chamada que reaproveita a requisição recebe uma cópia da
+   * resposta.
+   * @param key A chave da requisição (endpoint e parâmetros)
+   * @param endpoint O caminho do endpoint, para os logs
+   * @param load Função que executa a requisição com o sinal compartilhado
+   * @param signal Sinal de cancelamento da chamada
+   */
+  private async coalesce(
+    key: string,
+    endpoint: string,
+    load: (signal: AbortSignal) => Promise<TinyApiResponse["retorno"]>,
+    signal?: AbortSignal
+  ): Promise<TinyApiResponse["retorno"]> {
+    signal?.throwIfAborted();
+
+    let entry = this.inFlight.get(key);
+    const joined = entry !== undefined;
+
+    if (entry) {
+      this.logger.debug(
+        `Reaproveitando a requisição em andamento para ${endpoint}.`
+      );
+    } else {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        waiting: 0,
+        promise: load(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        }),
+      };
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.waiting++;
+
+    const retorno = await new Promise<TinyApiResponse["retorno"]>(
+      (resolve, reject) => {
+        const onAbort = () => {
+          shared.waiting--;
+          if (shared.waiting === 0) {
+            // Ninguém mais aguarda: a requisição é abortada e descartada
+            this.inFlight.delete(key);
+            shared.controller.abort(signal!.reason);
+          }
+          reject(signal!.reason);
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        shared.promise
+          .finally(() => signal?.removeEventListener("abort", onAbort))
+          .then(resolve, reject);
+      }
+    );
+
+    return joined ? structuredClone(retorno) : retorno;
   }
 
   /**
    * Executa uma requisição POST para um endpoint da API.
    * @param endpoint O caminho do endpoint (ex: /contato.incluir.php)
    * @param body Um objeto com os dados a serem enviados.
+   * @param requestOptions Opções da chamada (AbortSignal, timeout)
    */
-  public async post(endpoint: string, body: Record<string, any>) {
-    return this.request(endpoint, {
-      method: "POST",
-      body,
-    });
+  public async post(
+    endpoint: string,
+    body: Record<string, any>,
+    requestOptions: TinyRequestOptions = {}
+  ) {
+    return this.request(
+      endpoint,
+      {
+        method: "POST",
+        body,
+      },
+      requestOptions
+    );
   }
 
   /**
-   * Executa uma requisição POST para um endpoint da API.
+   * Remove do cache as respostas armazenadas dos endpoints informados.
+   *
+   * Chamado pelos resources após inclusões e alterações, para que as
+   * leituras seguintes reflitam os dados atualizados.
+   * @param endpoints Os endpoints a invalidar (ex: ["/produto.obter.php"])
+   * @internal
+   */
+  public async invalidateCache(endpoints: string[]): Promise<void> {
+    if (!this.cacheStore) {
+      return;
+    }
+
+    for (const endpoint of endpoints) {
+      try {
+        await this.cacheStore.deleteByPrefix(
+          cacheKeyPrefix(this.cacheKeyPrefix, endpoint)
+        );
+      } catch (error) {
+        this.logger.warn(`Falha ao invalidar o cache de ${endpoint}.`, error);
+      }
+    }
+  }
+
+  /**
+   * Lê uma resposta do cache. Falhas do armazenamento são registradas e
+   * tratadas como ausência, para não interromper a requisição.
+   *
+   * Devolve uma cópia, para que alterações feitas pelo chamador não
+   * afetem o valor armazenado.
+   */
+  private async readCache(
+    key: string
+  ): Promise<TinyApiResponse["retorno"] | undefined> {
+    try {
+      const cached = await this.cacheStore!.get(key);
+      return cached === undefined
+        ? undefined
+        : (structuredClone(cached) as TinyApiResponse["retorno"]);
+    } catch (error) {
+      this.logger.warn("Falha ao ler o cache de respostas.", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Armazena uma resposta no cache. Falhas do armazenamento são apenas
+   * registradas.
+   */
+  private async writeCache(key: string, value: unknown, ttl: number) {
+    try {
+      await this.cacheStore!.set(key, structuredClone(value), ttl);
+    } catch (error) {
+      this.logger.warn("Falha ao gravar o cache de respostas.", error);
+    }
+  }
+
+  /**
+   * Executa uma requisição respeitando o limitador e a política de retry.
+   *
+   * Quando o limitador está ativo e a API informa que o limite de acessos
+   * foi excedido, o limitador é pausado e a requisição volta para a fila,
+   * até `maxBlockedRetries` vezes. As demais falhas transitórias são
+   * repetidas com backoff exponencial até `maxAttempts` tentativas.
+   * @param endpoint O caminho do endpoint (ex: /contato.incluir.php)
+   * @param options Um objeto com o método e os dados a serem enviados.
+   * @param requestOptions Opções da chamada (AbortSignal, timeout)
+   */
+  private async request(
+    endpoint: string,
+    options: RequestOptions,
+    requestOptions: TinyRequestOptions
+  ) {
+    const { signal } = requestOptions;
+    let attempt = 1;
+    let blockedRetries = 0;
+
+    for (;;) {
+      await this.rateLimiter?.acquire(signal);
+
+      try {
+        return await this.attempt(endpoint, options, requestOptions, attempt);
+      } catch (error) {
+        if (
+          this.rateLimiter &&
+          error instanceof TinyRateLimitError &&
+          blockedRetries < this.maxBlockedRetries
+        ) {
+          blockedRetries++;
+          this.logger.warn(
+            `Limite de acessos da API Tiny excedido em ${endpoint}. Aguardando ${this.blockedBackoffMs}ms.`
+          );
+          this.rateLimiter.pause(this.blockedBackoffMs);
+          continue;
+        }
+
+        if (
+          signal?.aborted ||
+          attempt >= this.retryPolicy.maxAttempts ||
+          !this.isRetryable(error, endpoint)
+        ) {
+          throw error;
+        }
+
+        const delay = computeBackoffDelay(this.retryPolicy, attempt);
+        this.logger.warn(
+          `Falha transitória em ${endpoint} (tentativa ${attempt} de ${this.retryPolicy.maxAttempts}). Nova tentativa em ${delay}ms.`,
+          error
+        );
+        attempt++;
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Indica se a falha pode ser repetida segundo a política de retry.
+   *
+   * Erros da API com código transitório são sempre seguros, pois a API
+   * rejeitou a requisição. Falhas de transporte só são repetidas em
+   * requisições idempotentes (ou com `retryNonIdempotent`).
+   */
+  private isRetryable(error: unknown, endpoint: string): boolean {
+    if (error instanceof TinyApiError) {
+      return this.retryPolicy.retryableErrorCodes.has(String(error.codigo));
+    }
+
+    if (error instanceof TinyInvalidResponseError) {
+      if (!this.retryPolicy.retryableStatuses.has(error.status!)) {
+        return false;
+      }
+    } else if (
+      !(error instanceof TinyNetworkError) &&
+      !(error instanceof TinyTimeoutError)
+    ) {
+      return false;
+    }
+
+    return this.isIdempotent(endpoint);
+  }
+
+  /**
+   * Indica se uma falha de transporte no endpoint pode ser repetida sem
+   * risco de duplicidade. Define também o `retryable` dos erros de rede,
+   * de timeout e de resposta inválida.
+   */
+  private isIdempotent(endpoint: string): boolean {
+    return (
+      this.retryPolicy.retryNonIdempotent ||
+      !NON_IDEMPOTENT_ENDPOINT.test(endpoint)
+    );
+  }
+
+  /**
+   * Executa uma tentativa envolvida pelos middlewares registrados.
+   *
+   * Cada tentativa recebe um contexto próprio, com cópias dos parâmetros,
+   * do corpo e dos cabeçalhos, que o `onRequest` pode alterar livremente.
    * @param endpoint O caminho do endpoint (ex: /contato.incluir.php)
    * @param options Um objeto com o método e os dados a serem enviados.
+   * @param requestOptions Opções da chamada (AbortSignal, timeout)
+   * @param attempt Número da tentativa (começa em 1)
    */
-  private async request(endpoint: string, options: RequestOptions) {
-    // 1. Construir a URL base e adicionar parâmetros de autenticação
+  private async attempt(
+    endpoint: string,
+    options: RequestOptions,
+    requestOptions: TinyRequestOptions,
+    attempt: number
+  ) {
+    const context: TinyRequestContext = {
+      endpoint,
+      // Com o token no corpo, toda requisição é enviada via POST
+      method: this.tokenLocation === "body" ? "POST" : options.method,
+      params: { ...options.params },
+      body: { ...options.body },
+      headers: { ...this.headers },
+      attempt,
+    };
+
+    for (const middleware of this.middleware) {
+      await middleware.onRequest?.(context);
+    }
+
+    const startedAt = Date.now();
+    try {
+      return await this.execute(context, requestOptions, startedAt);
+    } catch (error) {
+      const durationMs = Date.now() - startedAt;
+      for (const middleware of this.middleware) {
+        await middleware.onError?.({ ...context, error, durationMs });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Executa uma única tentativa de requisição à API.
+   * @param context O contexto da tentativa (endpoint, parâmetros, corpo, cabeçalhos)
+   * @param requestOptions Opções da chamada (AbortSignal, timeout)
+   * @param startedAt Instante de início da tentativa, para medir a duração
+   */
+  private async execute(
+    context: TinyRequestContext,
+    requestOptions: TinyRequestOptions,
+    startedAt: number
+  ) {
+    const { endpoint, method } = context;
+
+    // 1. Montar os campos de autenticação, os parâmetros e o corpo
+    const auth = { token: this.token, formato: "json" };
+    const tokenInBody = this.tokenLocation === "body";
+
     const url = new URL(this.baseUrl + endpoint);
-    url.searchParams.append("token", this.token);
-    url.searchParams.append("formato", "json");
+    const query: Record<string, any> = tokenInBody
+      ? {}
+      : { ...auth, ...context.params };
+    const form: Record<string, any> = tokenInBody
+      ? { ...auth, ...context.params, ...context.body }
+      : context.body;
 
     // 2. Preparar as opções da requisição (fetch)
     const fetchOptions: RequestInit = {
-      method: options.method,
+      method,
+      headers: context.headers,
     };
 
-    // 3. Adicionar parâmetros/corpo dependendo do método
-    if (options.method === "GET" && options.params) {
-      // Adiciona parâmetros de busca (ex: { id: 123 }) à URL
-      Object.entries(options.params).forEach(([key, value]) => {
-        url.searchParams.append(key, String(value));
-      });
-    }
+    // 3. Adicionar parâmetros à URL e, em POST, o corpo do formulário
+    // Adiciona parâmetros de busca (ex: { id: 123 }) à URL. Valores
+    // indefinidos são omitidos e objetos/arrays são enviados como JSON.
+    appendEncoded(url.searchParams, query);
 
-    if (options.method === "POST" && options.body) {
+    if (method === "POST") {
       // A API v2 do Tiny espera dados de formulário (não JSON) no corpo.
       // Usamos URLSearchParams para formatar o corpo como 'application/x-www-form-urlencoded'
       const bodyParams = new URLSearchParams();
-      Object.entries(options.body).forEach(([key, value]) => {
-        bodyParams.append(key, String(value));
-      });
+      appendEncoded(bodyParams, form);
 
       fetchOptions.body = bodyParams;
       fetchOptions.headers = {
+        ...fetchOptions.headers,
         "Content-Type": "application/x-www-form-urlencoded",
       };
     }
 
-    // 4. Tentar executar a requisição
     let response: Response;
+    let data: TinyApiResponse;
+
+    // 4. Combinar o tempo limite e o sinal de cancelamento do chamador
+    const timeout = requestOptions.timeout ?? this.timeout;
+    const { signal } = requestOptions;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const timer =
+      timeout !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : undefined;
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    fetchOptions.signal = controller.signal;
+
+    // Converte um aborto no erro adequado (timeout ou cancelamento)
+    const abortError = () =>
+      timedOut
+        ? new TinyTimeoutError(endpoint, timeout!, this.isIdempotent(endpoint))
+        : signal!.reason;
+
     try {
-      response = await fetch(url.toString(), fetchOptions);
-    } catch (networkError) {
-      // Erro de rede (ex: sem internet, DNS falhou)
-      console.error("Erro de rede ao contactar a API Tiny:", networkError);
-      throw new Error(
-        `Falha de rede ao tentar aceder ${url.toString()}. ${
-          (networkError as Error).message
-        }`
-      );
+      signal?.throwIfAborted();
+
+      // 5. Tentar executar a requisição
+      try {
+        response = await this.fetchFn(url.toString(), fetchOptions);
+      } catch (networkError) {
+        if (controller.signal.aborted) {
+          throw abortError();
+        }
+
+        // Erro de rede (ex: sem internet, DNS falhou)
+        this.logger.error(
+          "Erro de rede ao contactar a API Tiny:",
+          networkError
+        );
+        // A URL completa não é incluída na mensagem, pois pode conter o token
+        const reason = redactSecrets(String((networkError as Error)?.message), [
+          this.token,
+        ]);
+        throw new TinyNetworkError(
+          `Falha de rede ao tentar aceder ${this.baseUrl}${endpoint}. ${reason}`,
+          endpoint,
+          redactArg(networkError, [this.token]),
+          this.isIdempotent(endpoint)
+        );
+      }
+
+      // 6. Tentar analisar o JSON da resposta
+      try {
+        data = (await response.json()) as TinyApiResponse;
+      } catch (jsonError) {
+        if (controller.signal.aborted) {
+          throw abortError();
+        }
+
+        // A API retornou algo que não é JSON (ex: um erro 500 com HTML)
+        throw new TinyInvalidResponseError(
+          `A API Tiny retornou uma resposta inválida (não-JSON). Status: ${response.status}`,
+          endpoint,
+          response.status,
+          this.isIdempotent(endpoint)
+        );
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
     }
 
-    // 5. Tentar analisar o JSON da resposta
-    let data: TinyApiResponse;
-    try {
-      data = (await response.json()) as TinyApiResponse;
-    } catch (jsonError) {
-      // A API retornou algo que não é JSON (ex: um erro 500 com HTML)
-      throw new Error(
-        `A API Tiny retornou uma resposta inválida (não-JSON). Status: ${response.status}`
+    if (BARE_ARRAY_ENDPOINTS.has(endpoint) && Array.isArray(data)) {
+      data = { retorno: { status: "OK", itens: data } };
+    }
+
+    if (typeof data?.retorno !== "object" || data.retorno === null) {
+      throw new TinyInvalidResponseError(
+        `A API Tiny retornou um JSON sem o objeto "retorno". Status: ${response.status}`,
+        endpoint,
+        response.status,
+        this.isIdempotent(endpoint)
       );
     }
 
-    // 6. Verificar o status da API (a lógica de negócio)
+    for (const middleware of this.middleware) {
+      await middleware.onResponse?.({
+        ...context,
+        status: response.status,
+        retorno: data.retorno,
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    // 7. Verificar o status da API (a lógica de negócio)
     // Este é o ponto-chave: a API retorna 200 OK mesmo para erros de negócio.
     if (data.retorno.status === "Erro") {
-      // Se for um erro, lançamos o nosso erro personalizado.
-      // O 'as any' é seguro aqui, pois TinyApiError espera essa estrutura.
-      throw new TinyApiError(data.retorno as any);
+      // Se for um erro, lançamos o nosso erro personalizado, com a subclasse
+      // adequada ao código. O 'as any' é seguro aqui, pois TinyApiError
+      // espera essa estrutura.
+      throw createTinyApiError(data.retorno as any, {
+        endpoint,
+        status: response.status,
+      });
     }
 
     return data.retorno;
@@ -1,11 +1,58 @@
 import { TinyV2HttpClient } from "./http-client.js";
-import { TinyApiError } from "./errors/tiny-api-error.js";
+import { MemoryCacheStore } from "./cache.js";
+import { HighWaterMark, SYNC_OVERLAP_MS } from "./high-water-mark.js";
+import {
+  CATEGORY_PATH_SEPARATOR,
+  findCategoryByPath,
+  flattenCategoryTree,
+} from "./categories.js";
+import { computeEffectivePrice } from "./price-lists.js";
+import { TinyError } from "./errors/tiny-error.js";
+import {
+  TinyApiError,
+  TinyAuthError,
+  TinyNotFoundError,
+  TinyRateLimitError,
+  TinyValidationError,
+} from "./errors/tiny-api-error.js";
+import { TinyInvalidResponseError } from "./errors/tiny-invalid-response-error.js";
+import { TinyAmbiguousResultError } from "./errors/tiny-ambiguous-result-error.js";
+import { TinyNetworkError } from "./errors/tiny-network-error.js";
+import { TinyTimeoutError } from "./errors/tiny-timeout-error.js";
+import {
+  TINY_ERROR_CODES,
+  getTinyErrorCodeInfo,
+} from "./errors/error-codes.js";
 
 import { AccountResource } from "./resources/account.js";
 import { ContactsResource } from "./resources/contacts.js";
 import { ProductsResource } from "./resources/products.js";
+import { TagsResource } from "./resources/tags.js";
+import { PriceListsResource } from "./resources/price-lists.js";
 
 import type { AccountDetails } from "./types/account.ts";
+import type {
+  TinyErrorCategory,
+  TinyErrorCodeInfo,
+} from "./errors/error-codes.js";
+import type { TinyErrorOptions } from "./errors/tiny-error.js";
+import type {
+  TinyBatchOptions,
+  TinyCacheOptions,
+  TinyCacheStore,
+  TinyErrorContext,
+  TinyHighWaterMarkStore,
+  TinyLogger,
+  TinyMiddleware,
+  TinyPaginationCheckpoint,
+  TinyPaginationOptions,
+  TinyRateLimitOptions,
+  TinyRequestContext,
+  TinyRequestOptions,
+  TinyResponseContext,
+  TinyRetryOptions,
+  TinySDKOptions,
+} from "./types/client.ts";
 
 /**
  * SDK não oficial para a API v2 do TinyERP (Olist).
@@ -83,6 +130,35 @@ export class TinySDK {
 
   public readonly product: ProductsResource;
 
+  /**
+   * Resource para as tags de produtos e seus grupos.
+   *
+   * Permite pesquisar e criar tags e grupos de tags, para obter os IDs
+   * usados em `idTag` (pesquisa) e `tags` (inclusão de produtos).
+   *
+   * @example
+   * ```typescript
+   * const tags = await sdk.tag.searchAll('');
+   * const idPorNome = new Map(tags.map(t => [t.nome, t.id]));
+   * ```
+   */
+  public readonly tag: TagsResource;
+
+  /**
+   * Resource para as listas de preços e suas exceções.
+   *
+   * Permite consultar as listas referenciadas em `id_lista_preco`
+   * (contatos) e `idListaPreco` (pesquisa de produtos) e calcular o preço
+   * de um produto para um contato.
+   *
+   * @example
+   * ```typescript
+   * const contato = await sdk.contact.getById(456);
+   * const { preco } = await sdk.priceList.getEffectivePrice(produto, contato);
+   * ```
+   */
+  public readonly priceList: PriceListsResource;
+
   /**
    * Cria uma nova instância do SDK TinyERP.
    *
@@ -90,23 +166,73 @@ export class TinySDK {
    * do TinyERP em Configurações > API.
    *
    * @param token - Token de autenticação da API v2 do TinyERP
+   * @param options - Opções de configuração (URL base, fetch customizado, cabeçalhos, timeout, logger)
    *
    * @throws {TinyApiError} Nos métodos do SDK quando há erros da API
    *
    * @example
    * ```typescript
    * const sdk = new TinySDK('seu-token-aqui');
+   *
+   * // Com opções
+   * const sdk = new TinySDK('seu-token-aqui', {
+   *   baseUrl: 'http://localhost:4010/api2',
+   *   userAgent: 'minha-integracao/2.0',
+   *   timeout: 30000,
+   * });
    * ```
    */
-  constructor(token: string) {
-    this.httpClient = new TinyV2HttpClient(token);
+  constructor(token: string, options: TinySDKOptions = {}) {
+    this.httpClient = new TinyV2HttpClient(token, options);
 
     this.account = new AccountResource(this.httpClient);
     this.contact = new ContactsResource(this.httpClient);
     this.product = new ProductsResource(this.httpClient);
+    this.tag = new TagsResource(this.httpClient);
+    this.priceList = new PriceListsResource(this.httpClient);
   }
 }
 
 // Exportações nomeadas para facilitar o uso
-export { TinyApiError };
-export type { AccountDetails };
+export {
+  TinyError,
+  TinyApiError,
+  TinyAuthError,
+  TinyRateLimitError,
+  TinyNotFoundError,
+  TinyValidationError,
+  TinyNetworkError,
+  TinyInvalidResponseError,
+  TinyTimeoutError,
+  TinyAmbiguousResultError,
+  TINY_ERROR_CODES,
+  getTinyErrorCodeInfo,
+  MemoryCacheStore,
+  HighWaterMark,
+  SYNC_OVERLAP_MS,
+  CATEGORY_PATH_SEPARATOR,
+  findCategoryByPath,
+  flattenCategoryTree,
+  computeEffectivePrice,
+};
+export type {
+  AccountDetails,
+  TinyErrorCategory,
+  TinyErrorCodeInfo,
+  TinyErrorOptions,
+  TinyBatchOptions,
+  TinyCacheOptions,
+  TinyCacheStore,
+  TinyErrorContext,
+  TinyHighWaterMarkStore,
+  TinyLogger,
+  TinyMiddleware,
+  TinyPaginationCheckpoint,
+  TinyPaginationOptions,
+  TinyRateLimitOptions,
+  TinyRequestContext,
+  TinyRequestOptions,
+  TinyResponseContext,
+  TinyRetryOptions,
+  TinySDKOptions,
+};
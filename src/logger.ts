@@ -0,0 +1,78 @@
+import type { TinyLogger } from "./types/client.js";
+
+/**
+ * Logger que descarta todas as mensagens. É o padrão do SDK.
+ *
+ * @internal
+ */
+export const silentLogger: TinyLogger = {
+  debug: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Substitui todas as ocorrências dos segredos informados por `***`,
+ * inclusive na forma codificada para URL.
+ *
+ * @internal
+ */
+export function redactSecrets(text: string, secrets: string[]): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    for (const variant of new Set([secret, encodeURIComponent(secret)])) {
+      redacted = redacted.split(variant).join("***");
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Remove segredos de um argumento de log (strings e instâncias de `Error`,
+ * inclusive a cadeia de `cause`). Outros valores são repassados sem
+ * alteração.
+ *
+ * @internal
+ */
+export function redactArg(arg: unknown, secrets: string[]): unknown {
+  if (typeof arg === "string") {
+    return redactSecrets(arg, secrets);
+  }
+
+  if (arg instanceof Error) {
+    const copy = new Error(redactSecrets(arg.message, secrets));
+    copy.name = arg.name;
+    copy.stack = arg.stack && redactSecrets(arg.stack, secrets);
+    if (arg.cause !== undefined) {
+      copy.cause = redactArg(arg.cause, secrets);
+    }
+    return copy;
+  }
+
+  return arg;
+}
+
+/**
+ * Envolve um logger para que nenhuma mensagem ou argumento contenha
+ * os segredos informados (ex: o token da API).
+ *
+ * @internal
+ */
+export function createRedactingLogger(
+  logger: TinyLogger,
+  secrets: string[]
+): TinyLogger {
+  const wrap =
+    (level: keyof TinyLogger) =>
+    (message: string, ...args: unknown[]) =>
+      logger[level](
+        redactSecrets(message, secrets),
+        ...args.map((arg) => redactArg(arg, secrets))
+      );
+
+  return {
+    debug: wrap("debug"),
+    warn: wrap("warn"),
+    error: wrap("error"),
+  };
+}
@@ -0,0 +1,306 @@
+import { mapConcurrent } from "./concurrency.js";
+import { encodeValue } from "./encoding.js";
+import { TinyNotFoundError } from "./errors/tiny-api-error.js";
+import type {
+  TinyPaginationCheckpoint,
+  TinyPaginationOptions,
+} from "./types/client.js";
+
+/**
+ * Uma página de resultados, já desembrulhada pelo resource.
+ *
+ * @internal
+ */
+export interface Page<T> {
+  items: T[];
+  numero_paginas: number;
+}
+
+/**
+ * Função que obtém uma página (começando em 1) com o sinal informado.
+ *
+ * @internal
+ */
+export type FetchPage<T> = (
+  pagina: number,
+  signal: AbortSignal
+) => Promise<Page<T>>;
+
+/**
+ * Opções do percurso das páginas.
+ *
+ * @internal
+ */
+export interface PaginateOptions {
+  /** Primeira página a ser obtida (padrão: 1) */
+  startPage?: number;
+
+  /** Número máximo de itens entregues */
+  maxItems?: number;
+
+  /** Número de páginas obtidas em paralelo (padrão: 1) */
+  concurrency?: number;
+
+  /** Sinal que cancela o percurso e as requisições pendentes */
+  signal?: AbortSignal;
+
+  /** Chamado quando todos os itens de uma página foram consumidos */
+  onPageComplete?(pagina: number, totalPages: number): void | Promise<void>;
+}
+
+/**
+ * Códigos de erro que indicam o fim dos resultados de uma pesquisa:
+ * 20 (a consulta não retornou registros) e 23 (a página não existe).
+ */
+const END_OF_RESULTS_CODES = new Set(["20", "23"]);
+
+/**
+ * Obtém uma página, tratando os erros de fim dos resultados como ausência
+ * de página.
+ */
+async function fetchPageOrEnd<T>(
+  fetchPage: FetchPage<T>,
+  pagina: number,
+  signal: AbortSignal
+): Promise<Page<T> | undefined> {
+  try {
+    return await fetchPage(pagina, signal);
+  } catch (error) {
+    if (
+      error instanceof TinyNotFoundError &&
+      END_OF_RESULTS_CODES.has(String(error.codigo))
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Percorre todas as páginas de uma pesquisa, entregando um item por vez.
+ *
+ * A primeira página é obtida sozinha, para conhecer o número de páginas;
+ * as seguintes são obtidas com até `concurrency` requisições em paralelo,
+ * à medida que o consumidor avança, e entregues sempre na ordem das
+ * páginas. Cada requisição passa normalmente pelo limitador e pela
+ * política de retry do cliente HTTP.
+ *
+ * Na primeira falha, as requisições pendentes são abortadas e o erro é
+ * lançado. O mesmo acontece, sem erro, quando o consumidor interrompe o
+ * percurso ou o limite de itens é atingido.
+ *
+ * Uma página só é considerada concluída (`onPageComplete`) quando o
+ * consumidor pede o item seguinte ao último dela, ou seja, depois de
+ * processar todos os seus itens.
+ *
+ * @param fetchPage Função que obtém uma página (começando em 1)
+ * @param options Página inicial, limite de itens, paralelismo, sinal e
+ * notificação de páginas concluídas
+ * @internal
+ */
+export async function* paginate<T>(
+  fetchPage: FetchPage<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const maxItems = options.maxItems ?? Infinity;
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+  let yielded = 0;
+
+  if (maxItems <= 0) {
+    return;
+  }
+
+  // Sinal próprio do percurso: segue o do chamador e permite abortar as
+  // requisições pendentes ao terminar
+  const { signal } = options;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  // Páginas já solicitadas, na ordem em que serão entregues
+  const pending: Array<Promise<Page<T> | undefined>> = [];
+  const startPage = options.startPage ?? 1;
+  let nextPage = startPage;
+  let totalPages = startPage;
+
+  try {
+    for (let pagina = startPage; pagina <= totalPages; pagina++) {
+      while (nextPage <= totalPages && pending.length < concurrency) {
+        const request = fetchPageOrEnd(
+          fetchPage,
+          nextPage++,
+          controller.signal
+        );
+        // A primeira falha aborta as demais requisições com o mesmo erro
+        request.catch((error) => controller.abort(error));
+        pending.push(request);
+      }
+
+      const page = await pending.shift()!;
+      if (!page) {
+        return;
+      }
+
+      totalPages = Number(page.numero_paginas);
+      for (const item of page.items) {
+        if (yielded >= maxItems) {
+          return;
+        }
+        yield item;
+        yielded++;
+      }
+
+      await options.onPageComplete?.(pagina, totalPages);
+      if (yielded >= maxItems) {
+        return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    controller.abort();
+  }
+}
+
+/**
+ * Codifica os filtros de uma pesquisa (sem a página) como no envio, para
+ * que o checkpoint seja serializável e comparável.
+ */
+function encodeFilters(filtros: Record<string, any>): Record<string, string> {
+  const encoded: Record<string, string> = {};
+  for (const key of Object.keys(filtros).sort()) {
+    const value = key === "pagina" ? undefined : encodeValue(filtros[key]);
+    if (value !== undefined) {
+      encoded[key] = value;
+    }
+  }
+  return encoded;
+}
+
+/**
+ * Percorre as páginas de uma pesquisa dos resources (`iterate()`),
+ * aplicando as opções de paginação e os checkpoints.
+ *
+ * Com `checkpoint`, o percurso recomeça na página seguinte à última
+ * concluída, desde que a pesquisa e os filtros sejam os mesmos do
+ * checkpoint.
+ *
+ * @param pesquisa Termo de busca
+ * @param filtros Filtros da pesquisa; `pagina` define a página inicial
+ * @param paginationOptions Opções de paginação informadas pelo chamador
+ * @param fetchPage Função que obtém uma página com as opções da chamada
+ * @internal
+ */
+export async function* paginateSearch<T>(
+  pesquisa: string,
+  filtros: Record<string, any> & { pagina?: number },
+  paginationOptions: TinyPaginationOptions,
+  fetchPage: (
+    pagina: number,
+    requestOptions: TinyPaginationOptions
+  ) => Promise<Page<T>>
+): AsyncGenerator<T, void, undefined> {
+  const { checkpoint, onCheckpoint } = paginationOptions;
+  const encodedFilters = encodeFilters(filtros);
+  let startPage = filtros.pagina;
+
+  if (checkpoint) {
+    if (
+      checkpoint.pesquisa !== pesquisa ||
+      JSON.stringify(encodeFilters(checkpoint.filtros)) !==
+        JSON.stringify(encodedFilters)
+    ) {
+      throw new Error(
+        "O checkpoint informado pertence a outra pesquisa (termo ou filtros diferentes)."
+      );
+    }
+    if (checkpoint.ultimaPagina >= checkpoint.numeroPaginas) {
+      return;
+    }
+    startPage = checkpoint.ultimaPagina + 1;
+  }
+
+  yield* paginate(
+    (pagina, signal) => fetchPage(pagina, { ...paginationOptions, signal }),
+    {
+      startPage,
+      maxItems: paginationOptions.maxItems,
+      concurrency: paginationOptions.concurrency,
+      signal: paginationOptions.signal,
+      onPageComplete:
+        onCheckpoint &&
+        ((pagina, totalPages) =>
+          onCheckpoint({
+            pesquisa,
+            filtros: encodedFilters,
+            ultimaPagina: pagina,
+            numeroPaginas: totalPages,
+          })),
+    }
+  );
+}
+
+/**
+ * Remove os itens repetidos pelo `id`, mantendo a última ocorrência (a
+ * mais atual) na posição em que ela aparece.
+ *
+ * Um registro alterado durante a paginação de uma consulta de alterações
+ * pode aparecer em duas páginas.
+ *
+ * @internal
+ */
+export function dedupeById<T extends { id: number }>(items: readonly T[]): T[] {
+  const byId = new Map<number, T>();
+  for (const item of items) {
+    byId.delete(item.id);
+    byId.set(item.id, item);
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Obtém os detalhes de cada registro de uma consulta de alterações, com
+ * no máximo `concurrency` consultas simultâneas.
+ *
+ * Um registro excluído entre a listagem e a consulta do detalhe gera
+ * `TinyNotFoundError`; ele é omitido de `detalhes` e informado em
+ * `removidos`, para que a sincronização não falhe por inteiro. Os demais
+ * erros são lançados.
+ *
+ * @internal
+ */
+export async function hydrateChanges<T extends { id: number }, D>(
+  items: readonly T[],
+  concurrency: number,
+  getById: (id: number) => Promise<D>
+): Promise<{ detalhes: D[]; removidos: number[] }> {
+  const removidos: number[] = [];
+  const results = await mapConcurrent(items, concurrency, async (item) => {
+    try {
+      return await getById(item.id);
+    } catch (error) {
+      if (error instanceof TinyNotFoundError) {
+        removidos.push(item.id);
+        return undefined;
+      }
+      throw error;
+    }
+  });
+
+  return {
+    detalhes: results.filter((detalhe): detalhe is D => detalhe !== undefined),
+    removidos,
+  };
+}
+
+/**
+ * Reúne num array todos os itens de um iterador assíncrono.
+ *
+ * @internal
+ */
+export async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
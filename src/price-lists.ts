@@ -0,0 +1,61 @@
+import type {
+  EffectivePrice,
+  PriceList,
+  PriceListException,
+} from "./types/price-lists.js";
+import type { Product } from "./types/products.js";
+
+/**
+ * Calcula o preço efetivo de um produto numa lista de preços já carregada,
+ * sem nenhuma requisição à API.
+ *
+ * - Sem lista (`lista` ausente): preço do produto;
+ * - Produto com exceção na lista: preço da exceção;
+ * - Caso contrário: preço do produto com o percentual da lista
+ *   (`acrescimo_desconto`), arredondado em 2 casas decimais.
+ *
+ * Para calcular o preço de muitos produtos (ex: os itens de um lote de
+ * pedidos), carregue a lista e as exceções uma única vez e informe as
+ * exceções como um `Map` de `id_produto` para `preco`.
+ *
+ * @param produto Produto com `id` e `preco`
+ * @param lista Lista de preços do contato (ex: de `sdk.priceList.searchAll()`)
+ * @param excecoes Exceções da lista (de `sdk.priceList.getAllExceptions()`)
+ * ou um `Map` de `id_produto` para `preco`
+ * @returns O preço efetivo, a origem do preço e a lista aplicada
+ *
+ * @example
+ * ```typescript
+ * const listas = await sdk.priceList.searchAll('');
+ * const lista = listas.find((l) => l.id === contato.id_lista_preco);
+ * const excecoes = new Map(
+ *   (lista ? await sdk.priceList.getAllExceptions(lista.id) : []).map(
+ *     (e) => [e.id_produto, e.preco]
+ *   )
+ * );
+ *
+ * const precos = produtos.map((p) => computeEffectivePrice(p, lista, excecoes));
+ * ```
+ */
+export function computeEffectivePrice(
+  produto: Pick<Product, "id" | "preco">,
+  lista?: PriceList,
+  excecoes: readonly PriceListException[] | ReadonlyMap<number, number> = []
+): EffectivePrice {
+  if (!lista) {
+    return { preco: produto.preco, origem: "produto" };
+  }
+
+  const precoExcecao =
+    excecoes instanceof Map
+      ? excecoes.get(produto.id)
+      : (excecoes as readonly PriceListException[]).find(
+          (item) => item.id_produto === produto.id
+        )?.preco;
+  if (precoExcecao !== undefined) {
+    return { preco: precoExcecao, origem: "excecao", lista };
+  }
+
+  const preco = produto.preco * (1 + lista.acrescimo_desconto / 100);
+  return { preco: Math.round(preco * 100) / 100, origem: "lista", lista };
+}
@@ -0,0 +1,133 @@
+/**
+ * Limitador de requisições baseado em "token bucket".
+ *
+ * O balde comporta `burst` fichas (a rajada máxima), começa cheio e é
+ * reabastecido de forma contínua, à razão de `requestsPerMinute - burst + 1`
+ * fichas por minuto. Assim, nenhuma janela de 60 segundos recebe mais que
+ * `requestsPerMinute` requisições: a rajada inicial mais o que é
+ * reabastecido dentro da janela nunca ultrapassa a cota. Cada requisição
+ * consome uma ficha; quando o balde está vazio, as chamadas ficam numa
+ * fila FIFO até haver fichas disponíveis, em vez de falharem.
+ *
+ * @internal
+ */
+export class RateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly queue: Array<() => void> = [];
+
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param requestsPerMinute Número máximo de requisições em qualquer janela de 60 segundos
+   * @param burst Número máximo de requisições liberadas de uma vez (padrão:
+   * 10% de `requestsPerMinute`, no mínimo 1; limitado a `requestsPerMinute`)
+   */
+  constructor(requestsPerMinute: number, burst?: number) {
+    if (!(requestsPerMinute > 0)) {
+      throw new Error(
+        "O limite de requisições por minuto deve ser um número positivo."
+      );
+    }
+    if (burst !== undefined && !(burst >= 1)) {
+      throw new Error("O tamanho da rajada deve ser um número maior que 0.");
+    }
+    const quota = Math.max(1, Math.floor(requestsPerMinute));
+    this.capacity = Math.min(
+      quota,
+      Math.floor(burst ?? Math.max(1, quota / 10))
+    );
+    this.refillPerMs = (quota - this.capacity + 1) / 60_000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Aguarda até que uma ficha esteja disponível e a consome.
+   *
+   * @param signal Sinal que, quando abortado, retira a chamada da fila
+   */
+  public acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(release);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        reject(signal!.reason);
+      };
+      const release = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(release);
+      this.drain();
+    });
+  }
+
+  /**
+   * Suspende a liberação de fichas durante `ms` milissegundos.
+   *
+   * Usado quando a API informa que o limite de acessos foi excedido:
+   * o balde é esvaziado e nenhuma requisição é liberada até o fim da pausa.
+   */
+  public pause(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.reschedule();
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsed * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+
+  private reschedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.drain();
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const now = Date.now();
+    this.refill(now);
+
+    while (this.queue.length > 0 && now >= this.blockedUntil) {
+      if (this.tokens < 1) {
+        break;
+      }
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const wait = Math.max(
+      this.blockedUntil - now,
+      (1 - this.tokens) / this.refillPerMs
+    );
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.ceil(wait));
+  }
+}
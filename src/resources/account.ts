@@ -1,5 +1,6 @@
 import type { TinyV2HttpClient } from "../http-client.ts";
 import type { AccountDetails, InfoSuccessResponse } from "../types/account.ts";
+import type { TinyRequestOptions } from "../types/client.ts";
 
 /**
  * Resource para gerenciamento de informações da conta.
@@ -35,6 +36,7 @@ export class AccountResource {
    *
    * **Endpoint:** `POST /info.php`
    *
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
    * @returns Promessa que resolve com os detalhes completos da conta
    *
    * @throws {TinyApiError} Quando há erro na API (ex: token inválido ou expirado)
@@ -61,8 +63,10 @@ export class AccountResource {
    * }
    * ```
    */
-  public async getInfo(): Promise<AccountDetails> {
-    const response = await this.http.get("/info.php");
+  public async getInfo(
+    requestOptions?: TinyRequestOptions
+  ): Promise<AccountDetails> {
+    const response = await this.http.get("/info.php", {}, requestOptions);
 
     const typedResponse = response as InfoSuccessResponse;
     return typedResponse.conta;
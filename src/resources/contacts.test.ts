@@ -210,6 +210,7 @@ const mockUpdateResultClean: ContactCreateResultRecord[] = [
 
 afterEach(() => {
   vi.restoreAllMocks();
+  vi.useRealTimers();
 });
 
 describe("Contacts Resource (sdk.contacts)", () => {
@@ -402,3 +403,220 @@ describe("update()", () => {
     }
   });
 });
+
+describe("iterate() e searchAll()", () => {
+  it("deve percorrer todas as páginas de contatos", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const pagina = Number(new URL(url).searchParams.get("pagina"));
+      const retorno: ContactSearchSuccessResponse = {
+        ...mockContactSuccessResponse,
+        pagina,
+        numero_paginas: 2,
+        contatos: [{ contato: { ...mockContact, id: pagina } }],
+      };
+      return new Response(JSON.stringify({ retorno }), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const sdk = new TinySDK(MOCK_TOKEN);
+    const contatos: Contact[] = [];
+    for await (const contato of sdk.contact.iterate("", {
+      situacao: "Ativo",
+    })) {
+      contatos.push(contato);
+    }
+
+    expect(contatos.map((c) => c.id)).toEqual([1, 2]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("deve retornar uma lista vazia quando a pesquisa não retorna registros", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          retorno: {
+            status_processamento: 2,
+            status: "Erro",
+            codigo_erro: 20,
+            erros: [{ erro: "A consulta não retornou registros" }],
+          },
+        }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const sdk = new TinySDK(MOCK_TOKEN);
+
+    await expect(sdk.contact.searchAll("inexistente")).resolves.toEqual([]);
+  });
+});
+
+describe("changesSince()", () => {
+  it("deve pesquisar os contatos alterados desde a data e devolver a próxima data", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-06-10T14:00:00-03:00"));
+
+    const fetchMock = vi.fn(async (url: string) => {
+      const pagina = Number(new URL(url).searchParams.get("pagina"));
+      const retorno: ContactSearchSuccessResponse = {
+        ...mockContactSuccessResponse,
+        pagina,
+        numero_paginas: 2,
+        // O contato 2 aparece nas duas páginas
+        contatos: [
+          { contato: { ...mockContact, id: pagina } },
+          { contato: { ...mockContact, id: 2 } },
+        ],
+      };
+      return new Response(JSON.stringify({ retorno }), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const sdk = new TinySDK(MOCK_TOKEN);
+    const { contatos, proximaConsulta } = await sdk.contact.changesSince(
+      new Date("2024-06-10T13:45:00-03:00"),
+      { situacao: "Ativo" }
+    );
+
+    expect(contatos.map((c) => c.id)).toEqual([1, 2]);
+    // Início da consulta, recuado da margem de segurança
+    expect(proximaConsulta).toEqual(new Date("2024-06-10T13:59:00-03:00"));
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.searchParams.get("dataMinimaAtualizacao")).toBe(
+      "10/06/2024 13:45:00"
+    );
+    expect(url.searchParams.get("situacao")).toBe("Ativo");
+    expect(url.searchParams.get("pesquisa")).toBe("");
+  });
+
+  it("deve manter apenas a última ocorrência de um contato repetido", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const pagina = Number(new URL(url).searchParams.get("pagina"));
+      const retorno: ContactSearchSuccessResponse = {
+        ...mockContactSuccessResponse,
+        pagina,
+        numero_paginas: 2,
+        // O contato 1 foi alterado durante a paginação
+        contatos:
+          pagina === 1
+            ? [
+                { contato: { ...mockContact, id: 1, nome: "Antigo" } },
+                { contato: { ...mockContact, id: 2 } },
+              ]
+            : [
+                { contato: { ...mockContact, id: 3 } },
+                { contato: { ...mockContact, id: 1, nome: "Atual" } },
+              ],
+      };
+      return new Response(JSON.stringify({ retorno }), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const sdk = new TinySDK(MOCK_TOKEN);
+    const { contatos } = await sdk.contact.changesSince(new Date());
+
+    expect(contatos.map((c) => c.id)).toEqual([2, 3, 1]);
+    expect(contatos[2].nome).toBe("Atual");
+  });
+
+  it("deve obter os detalhes de cada contato com hydrate", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes("/contato.obter.php")) {
+        const id = Number(new URL(url).searchParams.get("id"));
+        const retorno: ContactGetSuccessResponse = {
+          ...mockGetByIdApiResponse,
+          contato: { ...mockGetByIdApiResponse.contato, id },
+        };
+        return new Response(JSON.stringify({ retorno }), { status: 200 });
+      }
+      const retorno: ContactSearchSuccessResponse = {
+        ...mockContactSuccessResponse,
+        pagina: 1,
+        numero_paginas: 1,
+        contatos: [
+          { contato: { ...mockContact, id: 7 } },
+          { contato: { ...mockContact, id: 8 } },
+        ],
+      };
+      return new Response(JSON.stringify({ retorno }), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const sdk = new TinySDK(MOCK_TOKEN);
+    const { contatos } = await sdk.contact.changesSince(
+      "01/06/2024 00:00:00",
+      { hydrate: true },
+      { concurrency: 2 }
+    );
+
+    expect(contatos.map((c) => c.id)).toEqual([7, 8]);
+    expect(contatos[0].pessoas_contato[0]).toEqual(mockPessoaContato);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("deve omitir e informar os contatos excluídos antes do detalhamento", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes("/contato.obter.php")) {
+        const id = Number(new URL(url).searchParams.get("id"));
+        if (id === 7) {
+          // Contato excluído depois da pesquisa
+          const retorno = {
+            status_processamento: 2,
+            status: "Erro",
+            codigo_erro: 32,
+            erros: [{ erro: "Contato não localizado" }],
+          };
+          return new Response(JSON.stringify({ retorno }), { status: 200 });
+        }
+        const retorno: ContactGetSuccessResponse = {
+          ...mockGetByIdApiResponse,
+          contato: { ...mockGetByIdApiResponse.contato, id },
+        };
+        return new Response(JSON.stringify({ retorno }), { status: 200 });
+      }
+      const retorno: ContactSearchSuccessResponse = {
+        ...mockContactSuccessResponse,
+        pagina: 1,
+        numero_paginas: 1,
+        contatos: [
+          { contato: { ...mockContact, id: 7 } },
+          { contato: { ...mockContact, id: 8 } },
+        ],
+      };
+      return new Response(JSON.stringify({ retorno }), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const sdk = new TinySDK(MOCK_TOKEN);
+    const { contatos, removidos } = await sdk.contact.changesSince(new Date(), {
+      hydrate: true,
+    });
+
+    expect(contatos.map((c) => c.id)).toEqual([8]);
+    expect(removidos).toEqual([7]);
+  });
+
+  it("deve retornar uma lista vazia quando não há alterações", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          retorno: {
+            status_processamento: 2,
+            status: "Erro",
+            codigo_erro: 20,
+            erros: [{ erro: "A consulta não retornou registros" }],
+          },
+        }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const sdk = new TinySDK(MOCK_TOKEN);
+    const result = await sdk.contact.changesSince(new Date());
+
+    expect(result.contatos).toEqual([]);
+    expect(result.proximaConsulta).toBeInstanceOf(Date);
+  });
+});
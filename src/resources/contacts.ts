@@ -10,7 +10,27 @@ import type {
   ContactCreateSuccessResponse,
   ContactCreateResultRecord,
   ContactUpdateEntry,
+  ContactChangesOptions,
+  ContactChangesResult,
 } from "../types/contacts.ts";
+import type {
+  TinyBatchOptions,
+  TinyPaginationOptions,
+  TinyRequestOptions,
+} from "../types/client.ts";
+import { nextSyncDate } from "../high-water-mark.js";
+import {
+  collect,
+  dedupeById,
+  hydrateChanges,
+  paginateSearch,
+} from "../pagination.js";
+
+/**
+ * Endpoints de leitura cujas respostas armazenadas em cache são
+ * invalidadas após inclusões e alterações de contatos.
+ */
+const CONTACT_READ_ENDPOINTS = ["/contato.obter.php", "/contatos.pesquisa.php"];
 
 /**
  * Resource para gerenciamento de contatos (clientes e fornecedores).
@@ -58,6 +78,7 @@ export class ContactsResource {
    *
    * @param pesquisa - Termo de busca (nome, código ou parte deles). Pode ser vazio para listar todos
    * @param options - Filtros opcionais para refinar a busca (CPF/CNPJ, situação, vendedor, etc.)
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
    * @returns Promessa que resolve com lista de contatos e informações de paginação
    *
    * @throws {TinyApiError} Quando a API retorna erro (ex: token inválido, parâmetros incorretos)
@@ -83,14 +104,19 @@ export class ContactsResource {
    */
   public async search(
     pesquisa: string,
-    options: ContactSearchOptions = {}
+    options: ContactSearchOptions = {},
+    requestOptions?: TinyRequestOptions
   ): Promise<PaginatedContactsResponse> {
     const params = {
       pesquisa,
       ...options,
     };
 
-    const response = await this.http.get("/contatos.pesquisa.php", params);
+    const response = await this.http.get(
+      "/contatos.pesquisa.php",
+      params,
+      requestOptions
+    );
 
     const typedResponse = response as ContactSearchSuccessResponse;
 
@@ -105,6 +131,150 @@ export class ContactsResource {
     };
   }
 
+  /**
+   * Percorre todas as páginas de uma pesquisa de contatos, entregando um
+   * item por vez.
+   *
+   * As páginas são obtidas sob demanda, conforme o laço avança, e cada
+   * requisição respeita o limitador de requisições e a política de retry.
+   * Com `concurrency`, as páginas seguintes à primeira são obtidas em
+   * paralelo, mantendo a ordem dos itens. Com `onCheckpoint` e
+   * `checkpoint`, uma exportação interrompida pode ser retomada a partir
+   * da última página processada.
+   * Uma pesquisa sem resultados (erro "a consulta não retornou registros")
+   * simplesmente não entrega itens.
+   *
+   * @param pesquisa - Termo de busca (pode ser vazio para listar todos)
+   * @param options - Filtros da pesquisa; `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   *
+   * @returns Iterador assíncrono com os contatos encontrados
+   *
+   * @throws {TinyApiError} Lança erro se a requisição de alguma página falhar
+   *
+   * @example
+   * ```typescript
+   * for await (const item of sdk.contact.iterate('', { situacao: 'Ativo' })) {
+   *   console.log(item.id, item.nome);
+   * }
+   * ```
+   */
+  public async *iterate(
+    pesquisa: string,
+    options: ContactSearchOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): AsyncGenerator<Contact, void, undefined> {
+    yield* paginateSearch(
+      pesquisa,
+      options,
+      paginationOptions,
+      async (pagina, requestOptions) => {
+        const page = await this.search(
+          pesquisa,
+          { ...options, pagina },
+          requestOptions
+        );
+        return { items: page.contatos, numero_paginas: page.numero_paginas };
+      }
+    );
+  }
+
+  /**
+   * Obtém todos os contatos de uma pesquisa, percorrendo todas as páginas.
+   *
+   * Use `maxItems` para limitar o volume carregado em memória.
+   *
+   * @param pesquisa - Termo de busca (pode ser vazio para listar todos)
+   * @param options - Filtros da pesquisa; `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   *
+   * @returns Promise com todos os contatos encontrados (ou os primeiros `maxItems`)
+   *
+   * @throws {TinyApiError} Lança erro se a requisição de alguma página falhar
+   *
+   * @example
+   * ```typescript
+   * const todos = await sdk.contact.searchAll('', { situacao: 'Ativo' }, {
+   *   maxItems: 1000,
+   * });
+   * ```
+   */
+  public async searchAll(
+    pesquisa: string,
+    options: ContactSearchOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): Promise<Contact[]> {
+    return collect(this.iterate(pesquisa, options, paginationOptions));
+  }
+
+  /**
+   * Obtém todos os contatos atualizados desde uma data, para sincronizações
+   * incrementais.
+   *
+   * Percorre todas as páginas da pesquisa com `dataMinimaAtualizacao` e
+   * devolve, junto com os contatos, a data a ser usada na próxima chamada
+   * (o instante em que a consulta começou, recuado de `SYNC_OVERLAP_MS`).
+   * Com `hydrate: true`, cada contato é obtido em detalhe via `getById()`,
+   * ignorando o cache; os contatos excluídos antes do detalhamento são
+   * omitidos e informados em `removidos`.
+   *
+   * @param since - Data mínima de atualização (`Date` ou `dd/mm/aaaa hh:mm:ss`)
+   * @param options - Filtros da pesquisa e opção `hydrate`
+   * @param paginationOptions - Paralelismo (páginas e detalhes) e opções de cada chamada (AbortSignal, timeout)
+   * @returns Promessa com os contatos alterados e a data da próxima consulta
+   *
+   * @throws {TinyApiError} Quando a requisição de alguma página ou detalhe falhar
+   *
+   * @example
+   * ```typescript
+   * let desde = await loadHighWaterMark(); // Date
+   *
+   * const { contatos, proximaConsulta } = await sdk.contact.changesSince(desde, {
+   *   hydrate: true,
+   * });
+   * await crm.upsert(contatos);
+   * await saveHighWaterMark(proximaConsulta);
+   * ```
+   */
+  public async changesSince(
+    since: Date | string,
+    options?: ContactChangesOptions & { hydrate?: false },
+    paginationOptions?: TinyBatchOptions
+  ): Promise<ContactChangesResult<Contact>>;
+  public async changesSince(
+    since: Date | string,
+    options: ContactChangesOptions & { hydrate: true },
+    paginationOptions?: TinyBatchOptions
+  ): Promise<ContactChangesResult<ContactDetails>>;
+  public async changesSince(
+    since: Date | string,
+    options: ContactChangesOptions = {},
+    paginationOptions: TinyBatchOptions = {}
+  ): Promise<ContactChangesResult<Contact | ContactDetails>> {
+    const proximaConsulta = nextSyncDate();
+    const { pesquisa = "", hydrate = false, ...filtros } = options;
+
+    const changed = await this.searchAll(
+      pesquisa,
+      { ...filtros, dataMinimaAtualizacao: since },
+      paginationOptions
+    );
+
+    const contatos = dedupeById(changed);
+
+    if (!hydrate) {
+      return { contatos, proximaConsulta };
+    }
+
+    const { signal, timeout } = paginationOptions;
+    const { detalhes, removidos } = await hydrateChanges(
+      contatos,
+      paginationOptions.concurrency ?? 1,
+      (id) => this.getById(id, { signal, timeout, cache: false })
+    );
+    return { contatos: detalhes, proximaConsulta, removidos };
+  }
+
   /**
    * Obtém os detalhes completos de um contato específico.
    *
@@ -114,6 +284,7 @@ export class ContactsResource {
    * **Endpoint:** `POST /contato.obter.php`
    *
    * @param id - ID único do contato no TinyERP
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
    * @returns Promessa que resolve com os detalhes completos do contato
    *
    * @throws {TinyApiError} Quando o contato não existe ou há erro na API
@@ -135,8 +306,15 @@ export class ContactsResource {
    * console.log('Tipos:', contact.tipos_contato); // ["Cliente", "Fornecedor"]
    * ```
    */
-  public async getById(id: number): Promise<ContactDetails> {
-    const response = await this.http.get("/contato.obter.php", { id });
+  public async getById(
+    id: number,
+    requestOptions?: TinyRequestOptions
+  ): Promise<ContactDetails> {
+    const response = await this.http.get(
+      "/contato.obter.php",
+      { id },
+      requestOptions
+    );
     const typedResponse = response as ContactGetSuccessResponse;
 
     const contatoApi = typedResponse.contato;
@@ -165,6 +343,7 @@ export class ContactsResource {
    * **Endpoint:** `POST /contato.incluir.php`
    *
    * @param contacts - Array de contatos a serem criados, cada um com sequencia e dados
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
    * @returns Promessa que resolve com array de resultados (um para cada contato)
    *
    * @throws {TinyApiError} Quando há erro geral na API (ex: token inválido)
@@ -204,7 +383,8 @@ export class ContactsResource {
    * ```
    */
   public async create(
-    contacts: ContactCreateEntry[]
+    contacts: ContactCreateEntry[],
+    requestOptions?: TinyRequestOptions
   ): Promise<ContactCreateResultRecord[]> {
     const apiPayload = {
       contatos: contacts.map((entry) => {
@@ -230,10 +410,16 @@ export class ContactsResource {
     };
 
     const body = {
-      contato: JSON.stringify(apiPayload),
+      contato: apiPayload,
     };
 
-    const response = await this.http.post("/contato.incluir.php", body);
+    const response = await this.http.post(
+      "/contato.incluir.php",
+      body,
+      requestOptions
+    );
+
+    await this.http.invalidateCache(CONTACT_READ_ENDPOINTS);
 
     const typedResponse = response as ContactCreateSuccessResponse;
 
@@ -252,6 +438,7 @@ export class ContactsResource {
    * **Endpoint:** `POST /contato.alterar.php`
    *
    * @param contacts - Array de contatos a serem atualizados, cada um com sequencia e dados
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
    * @returns Promessa que resolve com array de resultados (um para cada contato)
    *
    * @throws {TinyApiError} Quando há erro geral na API (ex: token inválido)
@@ -291,7 +478,8 @@ export class ContactsResource {
    * ```
    */
   public async update(
-    contacts: ContactUpdateEntry[]
+    contacts: ContactUpdateEntry[],
+    requestOptions?: TinyRequestOptions
   ): Promise<ContactCreateResultRecord[]> {
     const apiPayload = {
       contatos: contacts.map((entry) => {
@@ -317,10 +505,16 @@ export class ContactsResource {
     };
 
     const body = {
-      contato: JSON.stringify(apiPayload),
+      contato: apiPayload,
     };
 
-    const response = await this.http.post("/contato.alterar.php", body);
+    const response = await this.http.post(
+      "/contato.alterar.php",
+      body,
+      requestOptions
+    );
+
+    await this.http.invalidateCache(CONTACT_READ_ENDPOINTS);
 
     const typedResponse = response as ContactCreateSuccessResponse;
 
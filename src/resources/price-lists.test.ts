@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TinySDK, computeEffectivePrice } from "../index.js";
+import { TinyApiError, TinyNotFoundError } from "../errors/tiny-api-error.js";
+import type {
+  PriceListExceptionsSuccessResponse,
+  PriceListSearchSuccessResponse,
+} from "../types/price-lists.js";
+
+const MOCK_TOKEN = "test_token_123";
+
+const mockErrorResponse = {
+  retorno: {
+    status_processamento: 2,
+    status: "Erro",
+    codigo_erro: 32,
+    erros: [{ erro: "Token inválido ou expirado" }],
+  },
+};
+
+const mockNoRecordsResponse = {
+  status_processamento: 2,
+  status: "Erro",
+  codigo_erro: 20,
+  erros: [{ erro: "A consulta não retornou registros" }],
+};
+
+const mockSearchResponse: PriceListSearchSuccessResponse = {
+  status_processamento: 3,
+  status: "OK",
+  pagina: 1,
+  numero_paginas: 1,
+  registros: [
+    { registro: { id: "10", descricao: "Atacado", acrescimo_desconto: "-10" } },
+    { registro: { id: 11, descricao: "Revenda", acrescimo_desconto: 5.5 } },
+  ],
+};
+
+const mockExceptionsResponse: PriceListExceptionsSuccessResponse = {
+  status_processamento: 3,
+  status: "OK",
+  pagina: 1,
+  numero_paginas: 1,
+  registros: [{ registro: { id_produto: "100", preco: "39.90" } }],
+};
+
+const jsonResponse = (retorno: unknown) =>
+  new Response(JSON.stringify({ retorno }), { status: 200 });
+
+const mockPriceListApi = () =>
+  vi
+    .fn()
+    .mockImplementation(async (url: string) =>
+      jsonResponse(
+        url.includes("listas.precos.excecoes.php")
+          ? mockExceptionsResponse
+          : mockSearchResponse
+      )
+    );
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("Price Lists Resource (sdk.priceList)", () => {
+  describe("search()", () => {
+    it("deve pesquisar listas e converter os valores numéricos", async () => {
+      const fetchMock = mockPriceListApi();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.priceList.search("Atacado");
+
+      const expectedUrl = `https://api.tiny.com.br/api2/listas.precos.pesquisa.php?token=${MOCK_TOKEN}&formato=json&pesquisa=Atacado`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(result).toEqual({
+        listas: [
+          { id: 10, descricao: "Atacado", acrescimo_desconto: -10 },
+          { id: 11, descricao: "Revenda", acrescimo_desconto: 5.5 },
+        ],
+        pagina: 1,
+        numero_paginas: 1,
+      });
+    });
+
+    it("deve lançar um TinyApiError se a pesquisa falhar", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockErrorResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.priceList.search("")).rejects.toBeInstanceOf(
+        TinyApiError
+      );
+    });
+  });
+
+  describe("getExceptions() e getAllExceptions()", () => {
+    it("deve obter as exceções da lista e converter os valores numéricos", async () => {
+      const fetchMock = mockPriceListApi();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.priceList.getExceptions(10, { pagina: 2 });
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.pathname).toBe("/api2/listas.precos.excecoes.php");
+      expect(url.searchParams.get("idListaPreco")).toBe("10");
+      expect(url.searchParams.get("pagina")).toBe("2");
+      expect(result.excecoes).toEqual([{ id_produto: 100, preco: 39.9 }]);
+    });
+
+    it("deve percorrer todas as páginas de exceções", async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+        const pagina = Number(new URL(url).searchParams.get("pagina"));
+        return jsonResponse({
+          ...mockExceptionsResponse,
+          pagina,
+          numero_paginas: 2,
+          registros: [{ registro: { id_produto: pagina, preco: "1.00" } }],
+        });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const excecoes = await sdk.priceList.getAllExceptions(10);
+
+      expect(excecoes.map((e) => e.id_produto)).toEqual([1, 2]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve retornar um array vazio quando a lista não tiver exceções", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockNoRecordsResponse));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.priceList.getAllExceptions(10)).resolves.toEqual([]);
+    });
+  });
+
+  describe("getEffectivePrice()", () => {
+    it("deve usar o preço do produto quando o contato não tiver lista", async () => {
+      const fetchMock = mockPriceListApi();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.priceList.getEffectivePrice(
+        { id: 100, preco: 49.9 },
+        { id_lista_preco: 0 }
+      );
+
+      expect(result).toEqual({ preco: 49.9, origem: "produto" });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("deve usar o preço da exceção quando o produto tiver uma", async () => {
+      vi.stubGlobal("fetch", mockPriceListApi());
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.priceList.getEffectivePrice(
+        { id: 100, preco: 49.9 },
+        { id_lista_preco: 10 }
+      );
+
+      expect(result).toEqual({
+        preco: 39.9,
+        origem: "excecao",
+        lista: { id: 10, descricao: "Atacado", acrescimo_desconto: -10 },
+      });
+    });
+
+    it("deve aplicar o percentual da lista e arredondar em 2 casas", async () => {
+      vi.stubGlobal("fetch", mockPriceListApi());
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const desconto = await sdk.priceList.getEffectivePrice(
+        { id: 200, preco: 59.9 },
+        { id_lista_preco: 10 }
+      );
+      const acrescimo = await sdk.priceList.getEffectivePrice(
+        { id: 200, preco: 10.01 },
+        { id_lista_preco: 11 }
+      );
+
+      expect(desconto.preco).toBe(53.91);
+      expect(desconto.origem).toBe("lista");
+      expect(acrescimo.preco).toBe(10.56);
+    });
+
+    it("deve lançar um TinyNotFoundError quando a lista do contato não existir", async () => {
+      const fetchMock = mockPriceListApi();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const act = sdk.priceList.getEffectivePrice(
+        { id: 100, preco: 49.9 },
+        { id_lista_preco: 99 }
+      );
+
+      await expect(act).rejects.toBeInstanceOf(TinyNotFoundError);
+      await expect(act).rejects.toThrow("ID 99");
+      expect(
+        fetchMock.mock.calls.some(([url]) =>
+          String(url).includes("listas.precos.excecoes.php")
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("computeEffectivePrice()", () => {
+    const atacado = { id: 10, descricao: "Atacado", acrescimo_desconto: -10 };
+
+    it("deve usar o preço do produto quando não houver lista", () => {
+      expect(computeEffectivePrice({ id: 1, preco: 49.9 })).toEqual({
+        preco: 49.9,
+        origem: "produto",
+      });
+    });
+
+    it("deve aceitar as exceções como array ou como Map", () => {
+      const excecoes = [{ id_produto: 1, preco: 39.9 }];
+      const porProduto = new Map([[1, 39.9]]);
+
+      for (const lista of [excecoes, porProduto]) {
+        expect(
+          computeEffectivePrice({ id: 1, preco: 49.9 }, atacado, lista)
+        ).toEqual({ preco: 39.9, origem: "excecao", lista: atacado });
+        expect(
+          computeEffectivePrice({ id: 2, preco: 59.9 }, atacado, lista)
+        ).toEqual({ preco: 53.91, origem: "lista", lista: atacado });
+      }
+    });
+
+    it("deve calcular os preços de um lote sem requisições", () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const precos = [
+        { id: 1, preco: 10 },
+        { id: 2, preco: 20 },
+      ].map((produto) => computeEffectivePrice(produto, atacado).preco);
+
+      expect(precos).toEqual([9, 18]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import type { TinyV2HttpClient } from "../http-client.js";
+import type {
+  EffectivePrice,
+  PaginatedPriceListExceptionsResponse,
+  PaginatedPriceListsResponse,
+  PriceList,
+  PriceListException,
+  PriceListExceptionsOptions,
+  PriceListExceptionsSuccessResponse,
+  PriceListSearchSuccessResponse,
+  PriceListsSearchOptions,
+} from "../types/price-lists.js";
+import type { Contact } from "../types/contacts.js";
+import type { Product } from "../types/products.js";
+import type {
+  TinyBatchOptions,
+  TinyPaginationOptions,
+  TinyRequestOptions,
+} from "../types/client.js";
+import { collect, paginateSearch } from "../pagination.js";
+import { TinyNotFoundError } from "../errors/tiny-api-error.js";
+import { computeEffectivePrice } from "../price-lists.js";
+
+/**
+ * Resource para consulta das listas de preços e de suas exceções.
+ *
+ * As listas são referenciadas pelo ID nos contatos (`id_lista_preco`) e
+ * na pesquisa de produtos (`idListaPreco`). Cada lista aplica um
+ * percentual de acréscimo ou desconto sobre o preço do produto, exceto
+ * nos produtos com preço específico (exceções).
+ *
+ * @example
+ * ```typescript
+ * const sdk = new TinySDK('seu-token');
+ *
+ * const listas = await sdk.priceList.searchAll('');
+ * const excecoes = await sdk.priceList.getAllExceptions(listas[0].id);
+ * ```
+ */
+export class PriceListsResource {
+  private readonly http: TinyV2HttpClient;
+
+  /**
+   * Cria uma instância do PriceListsResource.
+   *
+   * @param httpClient - Cliente HTTP configurado com o token da API
+   * @internal
+   */
+  constructor(httpClient: TinyV2HttpClient) {
+    this.http = httpClient;
+  }
+
+  /**
+   * Pesquisa listas de preços pela descrição.
+   *
+   * **Endpoint:** `POST /listas.precos.pesquisa.php`
+   *
+   * @param pesquisa - Descrição ou parte da descrição da lista (pode ser vazio para listar todas)
+   * @param options - Página
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promessa com as listas encontradas e informações de paginação
+   *
+   * @throws {TinyApiError} Quando há erro na API
+   *
+   * @example
+   * ```typescript
+   * const { listas } = await sdk.priceList.search('Atacado');
+   * console.log(listas[0].acrescimo_desconto); // -10
+   * ```
+   */
+  public async search(
+    pesquisa: string,
+    options: PriceListsSearchOptions = {},
+    requestOptions?: TinyRequestOptions
+  ): Promise<PaginatedPriceListsResponse> {
+    const response = await this.http.get(
+      "/listas.precos.pesquisa.php",
+      { pesquisa, ...options },
+      requestOptions
+    );
+
+    const typedResponse = response as PriceListSearchSuccessResponse;
+
+    return {
+      listas: typedResponse.registros.map(({ registro }) => ({
+        id: Number(registro.id),
+        descricao: registro.descricao,
+        acrescimo_desconto: Number(registro.acrescimo_desconto),
+      })),
+      pagina: typedResponse.pagina,
+      numero_paginas: typedResponse.numero_paginas,
+    };
+  }
+
+  /**
+   * Percorre todas as páginas de uma pesquisa de listas de preços,
+   * entregando uma lista por vez. Aceita as mesmas opções de paginação de
+   * `sdk.product.iterate()`.
+   *
+   * @param pesquisa - Descrição ou parte da descrição da lista (pode ser vazio para listar todas)
+   * @param options - `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   * @returns Iterador assíncrono com as listas encontradas
+   *
+   * @throws {TinyApiError} Quando a requisição de alguma página falhar
+   */
+  public async *iterate(
+    pesquisa: string,
+    options: PriceListsSearchOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): AsyncGenerator<PriceList, void, undefined> {
+    yield* paginateSearch(
+      pesquisa,
+      options,
+      paginationOptions,
+      async (pagina, requestOptions) => {
+        const page = await this.search(
+          pesquisa,
+          { ...options, pagina },
+          requestOptions
+        );
+        return { items: page.listas, numero_paginas: page.numero_paginas };
+      }
+    );
+  }
+
+  /**
+   * Obtém todas as listas de preços de uma pesquisa, percorrendo todas as
+   * páginas.
+   *
+   * @param pesquisa - Descrição ou parte da descrição da lista (pode ser vazio para listar todas)
+   * @param options - `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   * @returns Promessa com todas as listas encontradas
+   *
+   * @throws {TinyApiError} Quando a requisição de alguma página falhar
+   */
+  public async searchAll(
+    pesquisa: string,
+    options: PriceListsSearchOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): Promise<PriceList[]> {
+    return collect(this.iterate(pesquisa, options, paginationOptions));
+  }
+
+  /**
+   * Obtém uma página das exceções de uma lista de preços, ou seja, dos
+   * produtos com preço específico na lista.
+   *
+   * **Endpoint:** `POST /listas.precos.excecoes.php`
+   *
+   * @param idListaPreco - ID da lista de preços
+   * @param options - Página
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promessa com as exceções da página e informações de paginação
+   *
+   * @throws {TinyApiError} Quando há erro na API
+   *
+   * @example
+   * ```typescript
+   * const { excecoes, numero_paginas } = await sdk.priceList.getExceptions(123);
+   * ```
+   */
+  public async getExceptions(
+    idListaPreco: number,
+    options: PriceListExceptionsOptions = {},
+    requestOptions?: TinyRequestOptions
+  ): Promise<PaginatedPriceListExceptionsResponse> {
+    const response = await this.http.get(
+      "/listas.precos.excecoes.php",
+      { idListaPreco, ...options },
+      requestOptions
+    );
+
+    const typedResponse = response as PriceListExceptionsSuccessResponse;
+
+    return {
+      excecoes: typedResponse.registros.map(({ registro }) => ({
+        id_produto: Number(registro.id_produto),
+        preco: Number(registro.preco),
+      })),
+      pagina: typedResponse.pagina,
+      numero_paginas: typedResponse.numero_paginas,
+    };
+  }
+
+  /**
+   * Obtém todas as exceções de uma lista de preços, percorrendo todas as
+   * páginas. Uma lista sem exceções retorna um array vazio.
+   *
+   * @param idListaPreco - ID da lista de preços
+   * @param options - `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   * @returns Promessa com todas as exceções da lista
+   *
+   * @throws {TinyApiError} Quando a requisição de alguma página falhar
+   *
+   * @example
+   * ```typescript
+   * const excecoes = await sdk.priceList.getAllExceptions(123);
+   * const precoPorProduto = new Map(excecoes.map(e => [e.id_produto, e.preco]));
+   * ```
+   */
+  public async getAllExceptions(
+    idListaPreco: number,
+    options: PriceListExceptionsOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): Promise<PriceListException[]> {
+    return collect(
+      paginateSearch(
+        "",
+        { idListaPreco, ...options },
+        paginationOptions,
+        async (pagina, requestOptions) => {
+          const page = await this.getExceptions(
+            idListaPreco,
+            { ...options, pagina },
+            requestOptions
+          );
+          return {
+            items: page.excecoes,
+            numero_paginas: page.numero_paginas,
+          };
+        }
+      )
+    );
+  }
+
+  /**
+   * Calcula o preço efetivo de um produto para um contato.
+   *
+   * - Contato sem lista de preços (`id_lista_preco` vazio ou 0): preço do produto;
+   * - Produto com exceção na lista do contato: preço da exceção;
+   * - Caso contrário: preço do produto com o percentual da lista
+   *   (`acrescimo_desconto`), arredondado em 2 casas decimais.
+   *
+   * Cada chamada percorre as listas de preços e as exceções da lista do
+   * contato. Para calcular o preço de muitos produtos, carregue a lista e
+   * as exceções uma única vez e use `computeEffectivePrice()`, que faz o
+   * mesmo cálculo sem requisições.
+   *
+   * **Endpoints:** `POST /listas.precos.pesquisa.php` e `POST /listas.precos.excecoes.php`
+   *
+   * @param produto - Produto com `id` e `preco` (ex: resultado de `sdk.product.search()`)
+   * @param contato - Contato com `id_lista_preco` (ex: resultado de `sdk.contact.getById()`)
+   * @param options - Paralelismo e opções de cada chamada (AbortSignal, timeout)
+   * @returns Promessa com o preço efetivo, a origem do preço e a lista aplicada
+   *
+   * @throws {TinyNotFoundError} Quando a lista de preços do contato não existe
+   * @throws {TinyApiError} Quando a requisição à API falhar
+   *
+   * @example
+   * ```typescript
+   * const contato = await sdk.contact.getById(456);
+   * const [produto] = (await sdk.product.search('CAMISETA-P')).produtos;
+   *
+   * const { preco, origem } = await sdk.priceList.getEffectivePrice(produto, contato);
+   * ```
+   */
+  public async getEffectivePrice(
+    produto: Pick<Product, "id" | "preco">,
+    contato: Pick<Contact, "id_lista_preco">,
+    options: TinyBatchOptions = {}
+  ): Promise<EffectivePrice> {
+    const idListaPreco = Number(contato.id_lista_preco);
+    if (!idListaPreco) {
+      return computeEffectivePrice(produto);
+    }
+
+    const listas = await this.searchAll("", {}, options);
+    const lista = listas.find((item) => item.id === idListaPreco);
+    if (!lista) {
+      throw new TinyNotFoundError(
+        {
+          status_processamento: 2,
+          codigo_erro: 32,
+          erros: [
+            {
+              erro: `Nenhuma lista de preços encontrada com o ID ${idListaPreco}.`,
+            },
+          ],
+        },
+        { endpoint: "/listas.precos.pesquisa.php" }
+      );
+    }
+
+    const excecoes = await this.getAllExceptions(idListaPreco, {}, options);
+    return computeEffectivePrice(produto, lista, excecoes);
+  }
+}
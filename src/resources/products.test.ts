@@ -1,6 +1,15 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import { TinySDK } from "../index.js";
-import { TinyApiError } from "../errors/tiny-api-error.js";
+import {
+  HighWaterMark,
+  SYNC_OVERLAP_MS,
+  TinySDK,
+  findCategoryByPath,
+  flattenCategoryTree,
+} from "../index.js";
+import { TinyApiError, TinyNotFoundError } from "../errors/tiny-api-error.js";
+import { TinyNetworkError } from "../errors/tiny-network-error.js";
+import { TinyInvalidResponseError } from "../errors/tiny-invalid-response-error.js";
+import { TinyAmbiguousResultError } from "../errors/tiny-ambiguous-result-error.js";
 import type {
   Product,
   ProductDetails,
@@ -10,6 +19,7 @@ import type {
   ProductCreateSuccessResponse,
   ApiProductGetSuccessResponse,
 } from "../types/products.js";
+import type { TinyPaginationCheckpoint } from "../types/client.js";
 
 const MOCK_TOKEN = "test_token_123";
 
@@ -336,8 +346,65 @@ const mockCreateResultClean: ProductCreateResultRecord[] = [
   },
 ];
 
+// Mock de um fetch que responde à pesquisa com a página pedida na URL
+const pagedSearchFetch = (numeroPaginas: number, porPagina = 2) =>
+  vi.fn(async (url: string) => {
+    const pagina = Number(new URL(url).searchParams.get("pagina"));
+    const retorno: ProductSearchSuccessResponse = {
+      status_processamento: 3,
+      status: "OK",
+      pagina,
+      numero_paginas: numeroPaginas,
+      produtos: Array.from({ length: porPagina }, (_, i) => ({
+        produto: { ...mockProduct, id: pagina * 100 + i },
+      })),
+    };
+    return new Response(JSON.stringify({ retorno }), { status: 200 });
+  });
+
+const mockStockApi = (id: number, saldo = 10) => ({
+  status_processamento: 3,
+  status: "OK",
+  produto: {
+    id,
+    nome: `Produto ${id}`,
+    codigo: `SKU-${id}`,
+    unidade: "UN",
+    saldo,
+    saldoReservado: 2,
+    depositos: [
+      {
+        deposito: {
+          nome: "Geral",
+          desconsiderar: "N",
+          saldo,
+          empresa: "Loja Matriz",
+        },
+      },
+      {
+        deposito: {
+          nome: "Avarias",
+          desconsiderar: "S",
+          saldo: 3,
+          empresa: "Loja Matriz",
+        },
+      },
+    ],
+  },
+});
+
+const mockNoRecordsResponse = {
+  retorno: {
+    status_processamento: 2,
+    status: "Erro",
+    codigo_erro: 20,
+    erros: [{ erro: "A consulta não retornou registros" }],
+  },
+};
+
 afterEach(() => {
   vi.restoreAllMocks();
+  vi.useRealTimers();
 });
 
 describe("Products Resource (sdk.products)", () => {
@@ -703,4 +770,1545 @@ describe("Products Resource (sdk.products)", () => {
       }
     });
   });
+
+  describe("update()", () => {
+    it("deve enviar apenas os campos informados para produto.alterar.php", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ retorno: mockCreateApiResponseDirty }), {
+          status: 200,
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.product.update([
+        { sequencia: 1, data: { id: 12345, preco: 3299.9 } },
+      ]);
+
+      const expectedUrl = `https://api.tiny.com.br/api2/produto.alterar.php?token=${MOCK_TOKEN}&formato=json`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "POST" })
+      );
+
+      const fetchBody = fetchMock.mock.calls[0][1]?.body as URLSearchParams;
+      const produtoPayloadJson = JSON.parse(fetchBody.get("produto") || "{}");
+
+      // Listas não informadas não são enviadas (nem como arrays vazios)
+      expect(produtoPayloadJson).toEqual({
+        produtos: [{ produto: { id: 12345, preco: 3299.9, sequencia: 1 } }],
+      });
+      expect(result).toEqual(mockCreateResultClean);
+    });
+
+    it('deve "encapsular" as listas informadas e identificar pelo código', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ retorno: mockCreateApiResponseDirty }), {
+          status: 200,
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      await sdk.product.update([
+        {
+          sequencia: 1,
+          data: {
+            codigo: "CAM-01",
+            anexos: ["https://exemplo.com/manual.pdf"],
+            variacoes: [
+              {
+                codigo: "CAM-01-P",
+                preco: 49.9,
+                grade: { Tamanho: "P" },
+              },
+            ],
+          },
+        },
+      ]);
+
+      const fetchBody = fetchMock.mock.calls[0][1]?.body as URLSearchParams;
+      const produto = JSON.parse(fetchBody.get("produto") || "{}").produtos[0]
+        .produto;
+
+      expect(produto.codigo).toBe("CAM-01");
+      expect(produto.anexos).toEqual([
+        { anexo: "https://exemplo.com/manual.pdf" },
+      ]);
+      expect(produto.variacoes[0].variacao.codigo).toBe("CAM-01-P");
+      expect(produto.kit).toBeUndefined();
+      expect(produto.imagens_externas).toBeUndefined();
+    });
+
+    it("deve invalidar o cache de leitura de produtos", async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.includes("produto.alterar.php")
+          ? new Response(
+              JSON.stringify({ retorno: mockCreateApiResponseDirty }),
+              { status: 200 }
+            )
+          : new Response(JSON.stringify({ retorno: mockProductDetailsApi }), {
+              status: 200,
+            })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN, { cache: {} });
+      await sdk.product.getById(12345);
+      await sdk.product.getById(12345);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await sdk.product.update([
+        { sequencia: 1, data: { id: 12345, preco: 10 } },
+      ]);
+      await sdk.product.getById(12345);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("deve lançar um TinyApiError se a alteração falhar", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockErrorResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(
+        sdk.product.update([{ sequencia: 1, data: { id: 1, preco: 10 } }])
+      ).rejects.toBeInstanceOf(TinyApiError);
+    });
+  });
+
+  describe("updatePrices()", () => {
+    // Responde cada lote com um registro "OK" por produto enviado
+    const priceUpdateFetch = () =>
+      vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        const body = init.body as URLSearchParams;
+        const { precos } = JSON.parse(body.get("data") || "{}");
+        return new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              registros: precos.map((p: { id?: number }, i: number) => ({
+                registro: { sequencia: i + 1, status: "OK", id: p.id ?? 0 },
+              })),
+            },
+          }),
+          { status: 200 }
+        );
+      });
+
+    it("deve enviar os preços para produto.atualizar.precos.php", async () => {
+      const fetchMock = priceUpdateFetch();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.product.updatePrices([
+        { id: 12345, preco: 99.9 },
+        { codigo: "CAM-01", preco: 59.9, preco_promocional: 49.9 },
+      ]);
+
+      const expectedUrl = `https://api.tiny.com.br/api2/produto.atualizar.precos.php?token=${MOCK_TOKEN}&formato=json`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "POST" })
+      );
+      const body = fetchMock.mock.calls[0][1].body as URLSearchParams;
+      expect(JSON.parse(body.get("data") || "{}")).toEqual({
+        precos: [
+          { id: 12345, preco: 99.9 },
+          { codigo: "CAM-01", preco: 59.9, preco_promocional: 49.9 },
+        ],
+      });
+      expect(result).toEqual([
+        { sequencia: 1, status: "OK", id: 12345 },
+        { sequencia: 2, status: "OK", id: 0 },
+      ]);
+    });
+
+    it("deve dividir a lista em lotes de 100 e numerar os resultados pela posição", async () => {
+      const fetchMock = priceUpdateFetch();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const prices = Array.from({ length: 250 }, (_, i) => ({
+        id: i + 1,
+        preco: 10,
+      }));
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.product.updatePrices(prices);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const chunkSizes = fetchMock.mock.calls.map(
+        ([, init]) =>
+          JSON.parse((init.body as URLSearchParams).get("data") || "{}").precos
+            .length
+      );
+      expect(chunkSizes).toEqual([100, 100, 50]);
+      expect(result).toHaveLength(250);
+      expect(result.map((r) => r.sequencia)).toEqual(
+        prices.map((_, i) => i + 1)
+      );
+      expect(result[150].id).toBe(151);
+    });
+
+    it("não deve fazer requisições para uma lista vazia", async () => {
+      const fetchMock = priceUpdateFetch();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.product.updatePrices([])).resolves.toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("deve lançar o erro do lote que falhar e invalidar o cache", async () => {
+      let call = 0;
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes("produto.obter.php")) {
+          return new Response(
+            JSON.stringify({ retorno: mockProductDetailsApi }),
+            { status: 200 }
+          );
+        }
+        call++;
+        return new Response(
+          JSON.stringify(
+            call === 2
+              ? mockErrorResponse
+              : {
+                  retorno: {
+                    status_processamento: 3,
+                    status: "OK",
+                    registros: [],
+                  },
+                }
+          ),
+          { status: 200 }
+        );
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN, { cache: {} });
+      await sdk.product.getById(12345);
+
+      const prices = Array.from({ length: 150 }, (_, i) => ({
+        id: i + 1,
+        preco: 10,
+      }));
+      await expect(sdk.product.updatePrices(prices)).rejects.toBeInstanceOf(
+        TinyApiError
+      );
+
+      await sdk.product.getById(12345);
+      // getById + 2 lotes + getById (cache invalidado)
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe("getByCodigo() e getByGtin()", () => {
+    // Pesquisa com os produtos informados e detalhes pelo ID solicitado
+    const lookupFetch = (produtos: Partial<Product>[]) =>
+      vi.fn().mockImplementation(async (url: string) => {
+        const { pathname, searchParams } = new URL(url);
+        if (pathname.endsWith("/produto.obter.php")) {
+          const id = Number(searchParams.get("id"));
+          return new Response(
+            JSON.stringify({
+              retorno: {
+                ...mockProductDetailsApi,
+                produto: { ...mockProductDetailsApi.produto, id },
+              },
+            }),
+            { status: 200 }
+          );
+        }
+        return new Response(
+          JSON.stringify(
+            produtos.length === 0
+              ? mockNoRecordsResponse
+              : {
+                  retorno: {
+                    status_processamento: 3,
+                    status: "OK",
+                    pagina: 1,
+                    numero_paginas: 1,
+                    produtos: produtos.map((p) => ({
+                      produto: { ...mockProduct, ...p },
+                    })),
+                  },
+                }
+          ),
+          { status: 200 }
+        );
+      });
+
+    it("deve obter o produto com o código exato, ignorando correspondências parciais", async () => {
+      const fetchMock = lookupFetch([
+        { id: 1, codigo: "CAM-01-P" },
+        { id: 2, codigo: "CAM-01" },
+        { id: 3, codigo: "CAM-010" },
+      ]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produto = await sdk.product.getByCodigo("CAM-01");
+
+      const searchUrl = new URL(fetchMock.mock.calls[0][0]);
+      expect(searchUrl.pathname).toBe("/api2/produtos.pesquisa.php");
+      expect(searchUrl.searchParams.get("pesquisa")).toBe("CAM-01");
+      expect(new URL(fetchMock.mock.calls[1][0]).searchParams.get("id")).toBe(
+        "2"
+      );
+      expect(produto.id).toBe(2);
+    });
+
+    it("deve ignorar produtos excluídos", async () => {
+      const fetchMock = lookupFetch([
+        { id: 1, codigo: "CAM-01", situacao: "E" },
+        { id: 2, codigo: "CAM-01", situacao: "A" },
+      ]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produto = await sdk.product.getByCodigo("CAM-01");
+
+      expect(produto.id).toBe(2);
+    });
+
+    it("deve lançar TinyNotFoundError quando nenhum produto tiver o código", async () => {
+      vi.stubGlobal("fetch", lookupFetch([{ id: 1, codigo: "CAM-01-P" }]));
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.product.getByCodigo("CAM-01")).rejects.toSatisfy(
+        (error) =>
+          error instanceof TinyNotFoundError &&
+          error.message === 'Nenhum produto encontrado com o código "CAM-01".'
+      );
+    });
+
+    it("deve lançar TinyNotFoundError quando a pesquisa não retornar registros", async () => {
+      vi.stubGlobal("fetch", lookupFetch([]));
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(
+        sdk.product.getByGtin("7890000000000")
+      ).rejects.toBeInstanceOf(TinyNotFoundError);
+    });
+
+    it("deve obter o produto pelo GTIN usando o filtro gtin", async () => {
+      const fetchMock = lookupFetch([{ id: 7, gtin: "7891234567890" }]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produto = await sdk.product.getByGtin("7891234567890");
+
+      const searchUrl = new URL(fetchMock.mock.calls[0][0]);
+      expect(searchUrl.searchParams.get("gtin")).toBe("7891234567890");
+      expect(produto.id).toBe(7);
+    });
+
+    it("deve lançar TinyAmbiguousResultError quando mais de um produto tiver o GTIN", async () => {
+      const fetchMock = lookupFetch([
+        { id: 7, gtin: "7891234567890" },
+        { id: 8, gtin: "7891234567890" },
+      ]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.product.getByGtin("7891234567890")).rejects.toSatisfy(
+        (error) =>
+          error instanceof TinyAmbiguousResultError &&
+          !(error instanceof TinyApiError) &&
+          error.ids.join() === "7,8"
+      );
+      // Nenhum detalhe é obtido
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("deve parar de paginar no segundo produto com o código exato", async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+        const pagina = Number(new URL(url).searchParams.get("pagina"));
+        const produtos =
+          pagina === 2
+            ? [
+                { id: 20, codigo: "P1" },
+                { id: 21, codigo: "P1" },
+              ]
+            : [{ id: pagina, codigo: `P1-${pagina}` }];
+        return new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              pagina,
+              numero_paginas: 10,
+              produtos: produtos.map((p) => ({
+                produto: { ...mockProduct, ...p },
+              })),
+            },
+          }),
+          { status: 200 }
+        );
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(
+        sdk.product.getByCodigo("P1", { cache: false })
+      ).rejects.toSatisfy(
+        (error) =>
+          error instanceof TinyAmbiguousResultError &&
+          error.ids.join() === "20,21"
+      );
+      const paginas = fetchMock.mock.calls.map(([url]) =>
+        new URL(url).searchParams.get("pagina")
+      );
+      expect(paginas).toEqual(["1", "2"]);
+    });
+  });
+
+  describe("getStructure()", () => {
+    it("deve desencapsular os componentes e as etapas", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              produto: {
+                id: 500,
+                nome: "Mesa de Madeira",
+                codigo: "MESA-01",
+                estrutura: [
+                  {
+                    item: {
+                      id_produto: 501,
+                      codigo: "TAMPO",
+                      descricao: "Tampo 120x80",
+                      quantidade: "1",
+                    },
+                  },
+                  {
+                    item: {
+                      id_produto: 502,
+                      codigo: "PE",
+                      descricao: "Pé de madeira",
+                      quantidade: "4.00",
+                    },
+                  },
+                ],
+                etapas: [
+                  { etapa: { nome: "Corte" } },
+                  { etapa: { nome: "Montagem" } },
+                ],
+              },
+            },
+          }),
+          { status: 200 }
+        )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.product.getStructure(500);
+
+      const expectedUrl = `https://api.tiny.com.br/api2/produto.obter.estrutura.php?token=${MOCK_TOKEN}&formato=json&id=500`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(result).toEqual({
+        id: 500,
+        nome: "Mesa de Madeira",
+        codigo: "MESA-01",
+        estrutura: [
+          {
+            id_produto: 501,
+            codigo: "TAMPO",
+            descricao: "Tampo 120x80",
+            quantidade: 1,
+          },
+          {
+            id_produto: 502,
+            codigo: "PE",
+            descricao: "Pé de madeira",
+            quantidade: 4,
+          },
+        ],
+        etapas: [{ nome: "Corte" }, { nome: "Montagem" }],
+      });
+    });
+
+    it("deve retornar listas vazias quando o produto não tiver estrutura", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              produto: { id: 1, nome: "Simples", codigo: "S-1" },
+            },
+          }),
+          { status: 200 }
+        )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.product.getStructure(1);
+
+      expect(result.estrutura).toEqual([]);
+      expect(result.etapas).toEqual([]);
+    });
+
+    it("deve lançar um TinyApiError se a requisição falhar", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockErrorResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.product.getStructure(1)).rejects.toBeInstanceOf(
+        TinyApiError
+      );
+    });
+  });
+
+  describe("getTags()", () => {
+    it("deve obter e desencapsular as tags do produto", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              produto: {
+                id: 12345,
+                tags: [
+                  { tag: { id: 1, nome: "Lançamento", id_grupo: 10 } },
+                  { tag: { id: 7, nome: "Frete grátis", id_grupo: 11 } },
+                ],
+              },
+            },
+          }),
+          { status: 200 }
+        )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const tags = await sdk.product.getTags(12345);
+
+      const expectedUrl = `https://api.tiny.com.br/api2/produto.obter.tags.php?token=${MOCK_TOKEN}&formato=json&id=12345`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(tags).toEqual([
+        { id: 1, nome: "Lançamento", id_grupo: 10 },
+        { id: 7, nome: "Frete grátis", id_grupo: 11 },
+      ]);
+    });
+
+    it("deve retornar uma lista vazia quando o produto não tiver tags", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              produto: { id: 12345 },
+            },
+          }),
+          { status: 200 }
+        )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.product.getTags(12345)).resolves.toEqual([]);
+    });
+  });
+
+  describe("getStock() e getStocks()", () => {
+    it("deve obter o estoque e desencapsular os depósitos", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ retorno: mockStockApi(12345) }), {
+          status: 200,
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const estoque = await sdk.product.getStock(12345);
+
+      const expectedUrl = `https://api.tiny.com.br/api2/produto.obter.estoque.php?token=${MOCK_TOKEN}&formato=json&id=12345`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(estoque).toEqual({
+        id: 12345,
+        nome: "Produto 12345",
+        codigo: "SKU-12345",
+        unidade: "UN",
+        saldo: 10,
+        saldoReservado: 2,
+        depositos: [
+          {
+            nome: "Geral",
+            desconsiderar: "N",
+            saldo: 10,
+            empresa: "Loja Matriz",
+          },
+          {
+            nome: "Avarias",
+            desconsiderar: "S",
+            saldo: 3,
+            empresa: "Loja Matriz",
+          },
+        ],
+      });
+    });
+
+    it("deve retornar uma lista vazia quando não houver depósitos", async () => {
+      const { depositos, ...produto } = mockStockApi(1).produto;
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            retorno: { status_processamento: 3, status: "OK", produto },
+          }),
+          { status: 200 }
+        )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const estoque = await sdk.product.getStock(1);
+
+      expect(depositos).toHaveLength(2);
+      expect(estoque.depositos).toEqual([]);
+    });
+
+    it("deve obter vários estoques em paralelo, mantendo a ordem dos IDs", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        const id = Number(new URL(url).searchParams.get("id"));
+        // Respostas fora de ordem: IDs menores demoram mais
+        await new Promise((resolve) => setTimeout(resolve, 50 - id * 10));
+        active--;
+        return new Response(
+          JSON.stringify({ retorno: mockStockApi(id, id * 10) }),
+          { status: 200 }
+        );
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const estoques = await sdk.product.getStocks([1, 2, 3, 4], {
+        concurrency: 2,
+      });
+
+      expect(estoques.map((e) => e.id)).toEqual([1, 2, 3, 4]);
+      expect(estoques.map((e) => e.saldo)).toEqual([10, 20, 30, 40]);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(maxActive).toBe(2);
+    });
+
+    it("deve lançar o erro da primeira consulta que falhar", async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+        const id = Number(new URL(url).searchParams.get("id"));
+        return new Response(
+          JSON.stringify(
+            id === 2 ? mockErrorResponse : { retorno: mockStockApi(id) }
+          ),
+          { status: 200 }
+        );
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.product.getStocks([1, 2, 3, 4])).rejects.toBeInstanceOf(
+        TinyApiError
+      );
+      // Sem paralelismo, nenhuma consulta é iniciada após a falha
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("updateStock()", () => {
+    const mockStockUpdateResponse = {
+      status_processamento: 3,
+      status: "OK",
+      registros: [
+        {
+          registro: {
+            sequencia: "1",
+            status: "OK",
+            id: "12345",
+            saldoEstoque: "30",
+          },
+        },
+      ],
+    };
+
+    it("deve enviar a movimentação e retornar o novo saldo", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ retorno: mockStockUpdateResponse }), {
+          status: 200,
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.product.updateStock({
+        idProduto: 12345,
+        tipo: "E",
+        quantidade: 20,
+        precoUnitario: 35.5,
+        deposito: "Geral",
+        observacoes: "Recebimento NF 1234",
+        data: new Date("2024-03-05T14:30:00-03:00"),
+      });
+
+      const expectedUrl = `https://api.tiny.com.br/api2/produto.atualizar.estoque.php?token=${MOCK_TOKEN}&formato=json`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "POST" })
+      );
+
+      const fetchBody = fetchMock.mock.calls[0][1]?.body as URLSearchParams;
+      expect(JSON.parse(fetchBody.get("estoque") || "{}")).toEqual({
+        estoque: {
+          idProduto: 12345,
+          tipo: "E",
+          quantidade: 20,
+          precoUnitario: 35.5,
+          deposito: "Geral",
+          observacoes: "Recebimento NF 1234",
+          data: "05/03/2024 14:30:00",
+        },
+      });
+      expect(result).toEqual({ id: 12345, saldoEstoque: 30 });
+    });
+
+    it("deve omitir a data quando não informada", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ retorno: mockStockUpdateResponse }), {
+          status: 200,
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      await sdk.product.updateStock({
+        idProduto: 12345,
+        tipo: "B",
+        quantidade: 30,
+      });
+
+      const fetchBody = fetchMock.mock.calls[0][1]?.body as URLSearchParams;
+      expect(JSON.parse(fetchBody.get("estoque") || "{}")).toEqual({
+        estoque: { idProduto: 12345, tipo: "B", quantidade: 30 },
+      });
+    });
+
+    it("deve lançar um TinyApiError quando o registro for rejeitado", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              registros: [
+                {
+                  registro: {
+                    sequencia: "1",
+                    status: "Erro",
+                    codigo_erro: 31,
+                    erros: [{ erro: "Depósito não encontrado" }],
+                  },
+                },
+              ],
+            },
+          }),
+          { status: 200 }
+        )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(
+        sdk.product.updateStock({
+          idProduto: 12345,
+          tipo: "S",
+          quantidade: 1,
+          deposito: "Inexistente",
+        })
+      ).rejects.toSatisfy(
+        (error) =>
+          error instanceof TinyApiError &&
+          error.message === "Depósito não encontrado" &&
+          error.endpoint === "/produto.atualizar.estoque.php"
+      );
+    });
+
+    it.each([{ registros: [] }, {}])(
+      "deve lançar um TinyInvalidResponseError quando a resposta não trouxer o registro (%o)",
+      async (registros) => {
+        const fetchMock = vi.fn().mockResolvedValue(
+          new Response(
+            JSON.stringify({
+              retorno: { status_processamento: 3, status: "OK", ...registros },
+            }),
+            { status: 200 }
+          )
+        );
+        vi.stubGlobal("fetch", fetchMock);
+
+        const sdk = new TinySDK(MOCK_TOKEN);
+
+        await expect(
+          sdk.product.updateStock({
+            idProduto: 12345,
+            tipo: "E",
+            quantidade: 1,
+          })
+        ).rejects.toSatisfy(
+          (error) =>
+            error instanceof TinyInvalidResponseError &&
+            error.endpoint === "/produto.atualizar.estoque.php" &&
+            error.retryable === false
+        );
+      }
+    );
+
+    it("deve invalidar o cache de estoque do produto", async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.includes("produto.atualizar.estoque.php")
+          ? new Response(JSON.stringify({ retorno: mockStockUpdateResponse }), {
+              status: 200,
+            })
+          : new Response(JSON.stringify({ retorno: mockStockApi(12345) }), {
+              status: 200,
+            })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        cache: { ttlMs: { "/produto.obter.estoque.php": 60_000 } },
+      });
+      await sdk.product.getStock(12345);
+      await sdk.product.getStock(12345);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await sdk.product.updateStock({
+        idProduto: 12345,
+        tipo: "E",
+        quantidade: 20,
+      });
+      await sdk.product.getStock(12345);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("stockUpdatesSince()", () => {
+    const stockChange = (id: number, saldo: number) => ({
+      produto: {
+        ...mockStockApi(id, saldo).produto,
+        tipo_variacao: "N",
+        localizacao: "A1",
+        data_alteracao: "05/03/2024 14:30:00",
+      },
+    });
+
+    const stockChangesFetch = (paginas: ReturnType<typeof stockChange>[][]) =>
+      vi.fn().mockImplementation(async (url: string) => {
+        const pagina = Number(new URL(url).searchParams.get("pagina"));
+        return new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              pagina,
+              numero_paginas: paginas.length,
+              produtos: paginas[pagina - 1],
+            },
+          }),
+          { status: 200 }
+        );
+      });
+
+    it("deve percorrer as páginas e desencapsular os depósitos", async () => {
+      const fetchMock = stockChangesFetch([
+        [stockChange(1, 10), stockChange(2, 20)],
+        [stockChange(3, 30)],
+      ]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-03-05T15:00:00-03:00"));
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const { produtos, proximaConsulta } = await sdk.product.stockUpdatesSince(
+        new Date("2024-03-01T08:00:00-03:00")
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.pathname).toBe("/api2/lista.atualizacoes.estoque.php");
+      expect(url.searchParams.get("dataAlteracao")).toBe("01/03/2024 08:00:00");
+
+      expect(produtos.map((p) => [p.id, p.saldo])).toEqual([
+        [1, 10],
+        [2, 20],
+        [3, 30],
+      ]);
+      expect(produtos[0].depositos[0]).toEqual({
+        nome: "Geral",
+        desconsiderar: "N",
+        saldo: 10,
+        empresa: "Loja Matriz",
+      });
+      // Início da consulta, recuado da margem de segurança
+      expect(proximaConsulta).toEqual(
+        new Date(Date.parse("2024-03-05T15:00:00-03:00") - SYNC_OVERLAP_MS)
+      );
+    });
+
+    it("deve manter apenas a última ocorrência de um produto repetido", async () => {
+      const fetchMock = stockChangesFetch([
+        [stockChange(1, 10), stockChange(2, 20)],
+        [stockChange(1, 5)],
+      ]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const { produtos } = await sdk.product.stockUpdatesSince("01/03/2024");
+
+      expect(produtos.map((p) => [p.id, p.saldo])).toEqual([
+        [2, 20],
+        [1, 5],
+      ]);
+    });
+
+    it("deve retornar uma lista vazia quando não houver atualizações", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockNoRecordsResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const { produtos } = await sdk.product.stockUpdatesSince(new Date());
+
+      expect(produtos).toEqual([]);
+    });
+
+    it("deve avançar a marca d'água apenas após o processamento", async () => {
+      const fetchMock = stockChangesFetch([[stockChange(1, 10)]]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const store = new Map<string, string>();
+      const marca = new HighWaterMark(
+        store,
+        "estoque",
+        new Date("2024-01-01T00:00:00-03:00")
+      );
+
+      await expect(
+        marca.sync(
+          (desde) => sdk.product.stockUpdatesSince(desde),
+          () => {
+            throw new Error("marketplace indisponível");
+          }
+        )
+      ).rejects.toThrow("marketplace indisponível");
+      expect(store.has("estoque")).toBe(false);
+      expect(
+        new URL(fetchMock.mock.calls[0][0]).searchParams.get("dataAlteracao")
+      ).toBe("01/01/2024");
+
+      const processados: number[] = [];
+      const { proximaConsulta } = await marca.sync(
+        (desde) => sdk.product.stockUpdatesSince(desde),
+        ({ produtos }) => {
+          processados.push(...produtos.map((p) => p.id));
+        }
+      );
+
+      expect(processados).toEqual([1]);
+      expect(store.get("estoque")).toBe(proximaConsulta.toISOString());
+      expect(await marca.get()).toEqual(proximaConsulta);
+    });
+
+    it("deve rejeitar uma marca d'água gravada inválida", async () => {
+      const store = new Map([["estoque", "ontem"]]);
+      const marca = new HighWaterMark(store, "estoque", new Date());
+
+      await expect(marca.get()).rejects.toThrow(
+        'O valor gravado para a marca "estoque" não é uma data válida.'
+      );
+    });
+  });
+
+  describe("changesSince()", () => {
+    const changesFetch = (paginas: number[][], excluidos: number[] = []) =>
+      vi.fn().mockImplementation(async (url: string) => {
+        const { pathname, searchParams } = new URL(url);
+        if (pathname.endsWith("/produto.obter.php")) {
+          const id = Number(searchParams.get("id"));
+          if (excluidos.includes(id)) {
+            return new Response(
+              JSON.stringify({
+                retorno: {
+                  status_processamento: 2,
+                  status: "Erro",
+                  codigo_erro: 32,
+                  erros: [{ erro: "Produto não localizado" }],
+                },
+              }),
+              { status: 200 }
+            );
+          }
+          return new Response(
+            JSON.stringify({
+              retorno: {
+                ...mockProductDetailsApi,
+                produto: { ...mockProductDetailsApi.produto, id },
+              },
+            }),
+            { status: 200 }
+          );
+        }
+
+        const pagina = Number(searchParams.get("pagina"));
+        return new Response(
+          JSON.stringify({
+            retorno: {
+              status_processamento: 3,
+              status: "OK",
+              pagina,
+              numero_paginas: paginas.length,
+              produtos: paginas[pagina - 1].map((id) => ({
+                produto: { ...mockProduct, id },
+              })),
+            },
+          }),
+          { status: 200 }
+        );
+      });
+
+    it("deve listar os produtos alterados de todas as páginas", async () => {
+      const fetchMock = changesFetch([[1, 2], [3]]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-03-05T15:00:00-03:00"));
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const { produtos, proximaConsulta } = await sdk.product.changesSince(
+        new Date("2024-03-01T08:00:00-03:00")
+      );
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.pathname).toBe("/api2/lista.atualizacoes.produtos.php");
+      expect(url.searchParams.get("dataAlteracao")).toBe("01/03/2024 08:00:00");
+      expect(produtos).toEqual([
+        { ...mockProduct, id: 1 },
+        { ...mockProduct, id: 2 },
+        { ...mockProduct, id: 3 },
+      ]);
+      expect(proximaConsulta).toEqual(
+        new Date(Date.parse("2024-03-05T15:00:00-03:00") - SYNC_OVERLAP_MS)
+      );
+    });
+
+    it("deve remover produtos repetidos entre páginas", async () => {
+      const fetchMock = changesFetch([
+        [1, 2],
+        [2, 3],
+      ]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const { produtos } = await sdk.product.changesSince("01/03/2024");
+
+      expect(produtos.map((p) => p.id)).toEqual([1, 2, 3]);
+    });
+
+    it("deve obter os detalhes com hydrate, ignorando o cache", async () => {
+      const fetchMock = changesFetch([[1, 2]]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN, { cache: {} });
+      await sdk.product.getById(1);
+
+      const { produtos } = await sdk.product.changesSince(
+        new Date(),
+        { hydrate: true },
+        { concurrency: 2 }
+      );
+
+      expect(produtos.map((p) => p.id)).toEqual([1, 2]);
+      expect(produtos[0].kit).toEqual(mockProductDetailsClean.kit);
+      // getById inicial + 1 página + 2 detalhes
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it("deve omitir e informar os produtos excluídos antes do detalhamento", async () => {
+      const fetchMock = changesFetch([[1, 2, 3]], [2]);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const { produtos, removidos } = await sdk.product.changesSince(
+        new Date(),
+        { hydrate: true },
+        { concurrency: 2 }
+      );
+
+      expect(produtos.map((p) => p.id)).toEqual([1, 3]);
+      expect(removidos).toEqual([2]);
+    });
+
+    it("deve lançar os demais erros do detalhamento", async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+        url.includes("/produto.obter.php")
+          ? new Response(
+              JSON.stringify({
+                retorno: {
+                  status_processamento: 2,
+                  status: "Erro",
+                  codigo_erro: 2,
+                  erros: [{ erro: "Token inválido" }],
+                },
+              }),
+              { status: 200 }
+            )
+          : new Response(
+              JSON.stringify({
+                retorno: {
+                  status_processamento: 3,
+                  status: "OK",
+                  pagina: 1,
+                  numero_paginas: 1,
+                  produtos: [{ produto: { ...mockProduct, id: 1 } }],
+                },
+              }),
+              { status: 200 }
+            )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(
+        sdk.product.changesSince(new Date(), { hydrate: true })
+      ).rejects.toSatisfy(
+        (error) =>
+          error instanceof TinyApiError && !(error instanceof TinyNotFoundError)
+      );
+    });
+
+    it("deve retornar uma lista vazia quando não houver alterações", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockNoRecordsResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const { produtos } = await sdk.product.changesSince(new Date(), {
+        hydrate: true,
+      });
+
+      expect(produtos).toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("iterate() e searchAll()", () => {
+    it("deve percorrer todas as páginas em ordem", async () => {
+      const fetchMock = pagedSearchFetch(3);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const ids: number[] = [];
+      for await (const produto of sdk.product.iterate("notebook", {
+        situacao: "A",
+      })) {
+        ids.push(produto.id);
+      }
+
+      expect(ids).toEqual([100, 101, 200, 201, 300, 301]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const url = new URL(fetchMock.mock.calls[2][0]);
+      expect(url.searchParams.get("pesquisa")).toBe("notebook");
+      expect(url.searchParams.get("situacao")).toBe("A");
+      expect(url.searchParams.get("pagina")).toBe("3");
+    });
+
+    it("deve obter as páginas sob demanda", async () => {
+      const fetchMock = pagedSearchFetch(3);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      for await (const produto of sdk.product.iterate("")) {
+        expect(produto.id).toBe(100);
+        break;
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("deve começar pela página informada nas opções", async () => {
+      const fetchMock = pagedSearchFetch(3);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produtos = await sdk.product.searchAll("", { pagina: 2 });
+
+      expect(produtos.map((p) => p.id)).toEqual([200, 201, 300, 301]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve tratar a pesquisa sem registros como resultado vazio", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockNoRecordsResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produtos = await sdk.product.searchAll("inexistente");
+
+      expect(produtos).toEqual([]);
+    });
+
+    it("deve respeitar o limite maxItems sem obter páginas extras", async () => {
+      const fetchMock = pagedSearchFetch(5);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produtos = await sdk.product.searchAll("", {}, { maxItems: 3 });
+
+      expect(produtos.map((p) => p.id)).toEqual([100, 101, 200]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve lançar os demais erros da API", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockErrorResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.product.searchAll("")).rejects.toBeInstanceOf(
+        TinyApiError
+      );
+    });
+
+    it("deve obter as páginas em paralelo mantendo a ordem", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const paged = pagedSearchFetch(6, 1);
+      const fetchMock = vi.fn(async (url: string) => {
+        const pagina = Number(new URL(url).searchParams.get("pagina"));
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Páginas mais altas respondem primeiro
+        await new Promise((resolve) => setTimeout(resolve, 12 - pagina * 2));
+        inFlight--;
+        return paged(url);
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produtos = await sdk.product.searchAll("", {}, { concurrency: 3 });
+
+      expect(produtos.map((p) => p.id)).toEqual([100, 200, 300, 400, 500, 600]);
+      expect(fetchMock).toHaveBeenCalledTimes(6);
+      expect(maxInFlight).toBe(3);
+    });
+
+    it("deve abortar as páginas pendentes na primeira falha", async () => {
+      const paged = pagedSearchFetch(10, 1);
+      const signals = new Map<number, AbortSignal>();
+      const fetchMock = vi.fn((url: string, init: RequestInit) => {
+        const pagina = Number(new URL(url).searchParams.get("pagina"));
+        signals.set(pagina, init.signal!);
+        if (pagina === 1) {
+          return paged(url);
+        }
+        if (pagina === 3) {
+          return Promise.reject(new TypeError("fetch failed"));
+        }
+        return new Promise<Response>((_resolve, reject) => {
+          init.signal!.addEventListener("abort", () =>
+            reject(init.signal!.reason)
+          );
+        });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const error = await sdk.product
+        .searchAll("", {}, { concurrency: 4 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TinyNetworkError);
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect([2, 4, 5].map((pagina) => signals.get(pagina)!.aborted)).toEqual([
+        true,
+        true,
+        true,
+      ]);
+    });
+  });
+
+  describe("checkpoints de paginação", () => {
+    it("deve emitir um checkpoint após processar cada página", async () => {
+      vi.stubGlobal("fetch", pagedSearchFetch(3));
+      const checkpoints: TinyPaginationCheckpoint[] = [];
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      await sdk.product.searchAll(
+        "mouse",
+        { situacao: "A", idTag: 7, gtin: undefined },
+        { onCheckpoint: (cp) => void checkpoints.push(cp) }
+      );
+
+      expect(checkpoints.map((cp) => cp.ultimaPagina)).toEqual([1, 2, 3]);
+      expect(JSON.parse(JSON.stringify(checkpoints[0]))).toEqual({
+        pesquisa: "mouse",
+        filtros: { idTag: "7", situacao: "A" },
+        ultimaPagina: 1,
+        numeroPaginas: 3,
+      });
+    });
+
+    it("não deve concluir a página interrompida durante o processamento", async () => {
+      vi.stubGlobal("fetch", pagedSearchFetch(3));
+      let saved: TinyPaginationCheckpoint | undefined;
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const run = async () => {
+        for await (const produto of sdk.product.iterate(
+          "",
+          {},
+          {
+            onCheckpoint: (cp) => {
+              saved = cp;
+            },
+          }
+        )) {
+          if (produto.id === 201) {
+            throw new Error("falha ao exportar");
+          }
+        }
+      };
+
+      await expect(run()).rejects.toThrow("falha ao exportar");
+      expect(saved?.ultimaPagina).toBe(1);
+    });
+
+    it("deve retomar a partir da página seguinte ao checkpoint", async () => {
+      const fetchMock = pagedSearchFetch(3);
+      vi.stubGlobal("fetch", fetchMock);
+      const checkpoint: TinyPaginationCheckpoint = {
+        pesquisa: "mouse",
+        filtros: { situacao: "A" },
+        ultimaPagina: 1,
+        numeroPaginas: 3,
+      };
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produtos = await sdk.product.searchAll(
+        "mouse",
+        { situacao: "A" },
+        { checkpoint, concurrency: 2 }
+      );
+
+      expect(produtos.map((p) => p.id)).toEqual([200, 201, 300, 301]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("não deve fazer requisições ao retomar uma exportação concluída", async () => {
+      const fetchMock = pagedSearchFetch(3);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const produtos = await sdk.product.searchAll(
+        "",
+        {},
+        {
+          checkpoint: {
+            pesquisa: "",
+            filtros: {},
+            ultimaPagina: 3,
+            numeroPaginas: 3,
+          },
+        }
+      );
+
+      expect(produtos).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("deve rejeitar um checkpoint de outra pesquisa", async () => {
+      const fetchMock = pagedSearchFetch(3);
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const act = sdk.product.searchAll(
+        "mouse",
+        { situacao: "I" },
+        {
+          checkpoint: {
+            pesquisa: "mouse",
+            filtros: { situacao: "A" },
+            ultimaPagina: 1,
+            numeroPaginas: 3,
+          },
+        }
+      );
+
+      await expect(act).rejects.toThrow("outra pesquisa");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getCategoryTree()", () => {
+    const mockCategoryTreeApi = [
+      {
+        id: "1",
+        descricao: "Roupas",
+        nodes: [
+          {
+            id: "2",
+            descricao: "Camisetas",
+            nodes: [{ id: "3", descricao: "Manga Longa" }],
+          },
+          { id: "4", descricao: " Calças " },
+        ],
+      },
+      { id: "5", descricao: "Calçados" },
+    ];
+
+    it("deve aceitar o array sem `retorno` e normalizar IDs e subcategorias", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockCategoryTreeApi), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const tree = await sdk.product.getCategoryTree();
+
+      const expectedUrl = `https://api.tiny.com.br/api2/produtos.categorias.arvore.php?token=${MOCK_TOKEN}&formato=json`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(tree).toEqual([
+        {
+          id: 1,
+          descricao: "Roupas",
+          nodes: [
+            {
+              id: 2,
+              descricao: "Camisetas",
+              nodes: [{ id: 3, descricao: "Manga Longa", nodes: [] }],
+            },
+            { id: 4, descricao: " Calças ", nodes: [] },
+          ],
+        },
+        { id: 5, descricao: "Calçados", nodes: [] },
+      ]);
+    });
+
+    it("deve lançar um TinyApiError quando a API retornar erro em `retorno`", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockErrorResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.product.getCategoryTree()).rejects.toBeInstanceOf(
+        TinyApiError
+      );
+    });
+
+    it("deve encontrar uma categoria pelo caminho completo", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockCategoryTreeApi), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const tree = await sdk.product.getCategoryTree();
+
+      expect(findCategoryByPath(tree, "Roupas >> Camisetas")?.id).toBe(2);
+      expect(findCategoryByPath(tree, "Roupas>>Calças")?.id).toBe(4);
+      expect(
+        findCategoryByPath(tree, ["Roupas", "Camisetas", "Manga Longa"])?.id
+      ).toBe(3);
+      expect(findCategoryByPath(tree, "Camisetas")).toBeUndefined();
+      expect(findCategoryByPath(tree, "Roupas >> camisetas")).toBeUndefined();
+      expect(findCategoryByPath(tree, "")).toBeUndefined();
+    });
+
+    it("deve listar os caminhos completos em pré-ordem", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockCategoryTreeApi), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const paths = flattenCategoryTree(await sdk.product.getCategoryTree());
+
+      expect(paths.map(({ id, caminho }) => ({ id, caminho }))).toEqual([
+        { id: 1, caminho: "Roupas" },
+        { id: 2, caminho: "Roupas >> Camisetas" },
+        { id: 3, caminho: "Roupas >> Camisetas >> Manga Longa" },
+        { id: 4, caminho: "Roupas >> Calças" },
+        { id: 5, caminho: "Calçados" },
+      ]);
+      expect(paths[1].categoria.nodes).toHaveLength(1);
+    });
+  });
 });
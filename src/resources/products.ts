@@ -1,15 +1,80 @@
 import type { TinyV2HttpClient } from "../http-client.js";
 import {
+  ApiProductCategoryTreeResponse,
+  ApiProductChangesResponse,
   ApiProductGetSuccessResponse,
+  ApiProductStockChangesResponse,
+  ApiProductStockSuccessResponse,
+  ApiProductStockUpdateSuccessResponse,
+  ApiProductStructureSuccessResponse,
+  ApiProductTagsSuccessResponse,
   PaginatedProductsResponse,
   Product,
+  ProductCategory,
+  ProductChangesOptions,
+  ProductChangesResult,
   ProductCreateEntry,
   ProductCreateResultRecord,
   ProductCreateSuccessResponse,
   ProductDetails,
+  ProductPriceUpdateInput,
   ProductSearchSuccessResponse,
   ProductsSearchOptions,
+  ProductStock,
+  ProductStockChange,
+  ProductStockChangesResult,
+  ProductStockUpdateInput,
+  ProductStockUpdateResult,
+  ProductStructure,
+  ProductUpdateEntry,
+  ProductUpdateInput,
 } from "../types/products.js";
+import type { Tag } from "../types/tags.js";
+import type {
+  TinyBatchOptions,
+  TinyPaginationOptions,
+  TinyRequestOptions,
+} from "../types/client.js";
+import { mapConcurrent } from "../concurrency.js";
+import { nextSyncDate } from "../high-water-mark.js";
+import { TinyAmbiguousResultError } from "../errors/tiny-ambiguous-result-error.js";
+import { TinyInvalidResponseError } from "../errors/tiny-invalid-response-error.js";
+import {
+  TinyNotFoundError,
+  createTinyApiError,
+} from "../errors/tiny-api-error.js";
+import {
+  collect,
+  dedupeById,
+  hydrateChanges,
+  paginate,
+  paginateSearch,
+} from "../pagination.js";
+
+/**
+ * Endpoints de leitura cujas respostas armazenadas em cache são
+ * invalidadas após inclusões e alterações de produtos.
+ */
+const PRODUCT_READ_ENDPOINTS = [
+  "/produto.obter.php",
+  "/produtos.pesquisa.php",
+  "/produto.obter.estrutura.php",
+  "/produto.obter.tags.php",
+];
+
+/**
+ * Endpoints de leitura invalidados após movimentações de estoque (os
+ * detalhes do produto incluem o estoque das variações).
+ */
+const STOCK_READ_ENDPOINTS = [
+  "/produto.obter.estoque.php",
+  "/produto.obter.php",
+];
+
+/**
+ * Número máximo de produtos por chamada de `produto.atualizar.precos.php`.
+ */
+const PRICE_UPDATE_CHUNK_SIZE = 100;
 
 /**
  * Recurso para gerenciar operações relacionadas a produtos na API do TinyERP.
@@ -61,6 +126,7 @@ export class ProductsResource {
    * @param options.gtin - GTIN/EAN do produto para busca específica
    * @param options.situacao - Situação dos produtos: 'A' (Ativo), 'I' (Inativo), 'E' (Excluído)
    * @param options.dataCriacao - Data de criação do produto no formato dd/mm/aaaa hh:mm:ss
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
    *
    * @returns Promise com os produtos encontrados e informações de paginação
    *
@@ -89,14 +155,19 @@ export class ProductsResource {
    */
   public async search(
     pesquisa: string,
-    options: ProductsSearchOptions = {}
+    options: ProductsSearchOptions = {},
+    requestOptions?: TinyRequestOptions
   ): Promise<PaginatedProductsResponse> {
     const params = {
       pesquisa,
       ...options,
     };
 
-    const response = await this.http.get("/produtos.pesquisa.php", params);
+    const response = await this.http.get(
+      "/produtos.pesquisa.php",
+      params,
+      requestOptions
+    );
 
     const typedResponse = response as ProductSearchSuccessResponse;
 
@@ -111,6 +182,151 @@ export class ProductsResource {
     };
   }
 
+  /**
+   * Percorre todas as páginas de uma pesquisa de produtos, entregando um
+   * item por vez.
+   *
+   * As páginas são obtidas sob demanda, conforme o laço avança, e cada
+   * requisição respeita o limitador de requisições e a política de retry.
+   * Com `concurrency`, as páginas seguintes à primeira são obtidas em
+   * paralelo, mantendo a ordem dos itens. Com `onCheckpoint` e
+   * `checkpoint`, uma exportação interrompida pode ser retomada a partir
+   * da última página processada.
+   * Uma pesquisa sem resultados (erro "a consulta não retornou registros")
+   * simplesmente não entrega itens.
+   *
+   * @param pesquisa - Termo de busca (pode ser vazio para listar todos)
+   * @param options - Filtros da pesquisa; `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   *
+   * @returns Iterador assíncrono com os produtos encontrados
+   *
+   * @throws {TinyApiError} Lança erro se a requisição de alguma página falhar
+   *
+   * @example
+   * ```typescript
+   * for await (const item of sdk.product.iterate('notebook', { situacao: 'A' })) {
+   *   console.log(item.id, item.nome);
+   * }
+   * ```
+   */
+  public async *iterate(
+    pesquisa: string,
+    options: ProductsSearchOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): AsyncGenerator<Product, void, undefined> {
+    yield* paginateSearch(
+      pesquisa,
+      options,
+      paginationOptions,
+      async (pagina, requestOptions) => {
+        const page = await this.search(
+          pesquisa,
+          { ...options, pagina },
+          requestOptions
+        );
+        return { items: page.produtos, numero_paginas: page.numero_paginas };
+      }
+    );
+  }
+
+  /**
+   * Obtém todos os produtos de uma pesquisa, percorrendo todas as páginas.
+   *
+   * Use `maxItems` para limitar o volume carregado em memória.
+   *
+   * @param pesquisa - Termo de busca (pode ser vazio para listar todos)
+   * @param options - Filtros da pesquisa; `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   *
+   * @returns Promise com todos os produtos encontrados (ou os primeiros `maxItems`)
+   *
+   * @throws {TinyApiError} Lança erro se a requisição de alguma página falhar
+   *
+   * @example
+   * ```typescript
+   * const todos = await sdk.product.searchAll('notebook', { situacao: 'A' }, {
+   *   maxItems: 1000,
+   * });
+   * ```
+   */
+  public async searchAll(
+    pesquisa: string,
+    options: ProductsSearchOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): Promise<Product[]> {
+    return collect(this.iterate(pesquisa, options, paginationOptions));
+  }
+
+  /**
+   * Obtém todos os produtos alterados desde uma data, para sincronizações
+   * incrementais sem baixar o catálogo inteiro.
+   *
+   * Percorre todas as páginas da listagem de produtos atualizados e
+   * devolve, junto com os produtos, a data a ser usada na próxima chamada
+   * (o instante em que a consulta começou, recuado de `SYNC_OVERLAP_MS`),
+   * que pode ser persistida com `HighWaterMark`. Com `hydrate: true`, cada
+   * produto é obtido em detalhe via `getById()`, ignorando o cache; os
+   * produtos excluídos antes do detalhamento são omitidos e informados em
+   * `removidos`.
+   *
+   * **Endpoint:** `POST /lista.atualizacoes.produtos.php`
+   *
+   * @param since - Data da última sincronização (`Date` ou `dd/mm/aaaa hh:mm:ss`)
+   * @param options - Opção `hydrate`
+   * @param paginationOptions - Paralelismo (páginas e detalhes) e opções de cada chamada (AbortSignal, timeout)
+   * @returns Promise com os produtos alterados e a data da próxima consulta
+   *
+   * @throws {TinyApiError} Lança erro se a requisição de alguma página ou detalhe falhar
+   *
+   * @example
+   * ```typescript
+   * const marca = new HighWaterMark(store, "produtos", new Date(2024, 0, 1));
+   *
+   * await marca.sync(
+   *   (desde) => products.changesSince(desde, { hydrate: true }),
+   *   ({ produtos }) => catalogo.upsert(produtos)
+   * );
+   * ```
+   */
+  public async changesSince(
+    since: Date | string,
+    options?: ProductChangesOptions & { hydrate?: false },
+    paginationOptions?: TinyBatchOptions
+  ): Promise<ProductChangesResult<Product>>;
+  public async changesSince(
+    since: Date | string,
+    options: ProductChangesOptions & { hydrate: true },
+    paginationOptions?: TinyBatchOptions
+  ): Promise<ProductChangesResult<ProductDetails>>;
+  public async changesSince(
+    since: Date | string,
+    options: ProductChangesOptions = {},
+    paginationOptions: TinyBatchOptions = {}
+  ): Promise<ProductChangesResult<Product | ProductDetails>> {
+    const proximaConsulta = nextSyncDate();
+
+    const produtos = await this.listUpdatesSince(
+      "/lista.atualizacoes.produtos.php",
+      since,
+      paginationOptions,
+      (response: ApiProductChangesResponse) =>
+        response.produtos.map(({ produto }) => produto)
+    );
+
+    if (!options.hydrate) {
+      return { produtos, proximaConsulta };
+    }
+
+    const { signal, timeout } = paginationOptions;
+    const { detalhes, removidos } = await hydrateChanges(
+      produtos,
+      paginationOptions.concurrency ?? 1,
+      (id) => this.getById(id, { signal, timeout, cache: false })
+    );
+    return { produtos: detalhes, proximaConsulta, removidos };
+  }
+
   /**
    * Obtém os detalhes completos de um produto específico pelo seu ID.
    *
@@ -122,6 +338,7 @@ export class ProductsResource {
    * internos da API, facilitando o uso direto das informações.
    *
    * @param id - Identificador único do produto no TinyERP
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
    *
    * @returns Promise com os detalhes completos do produto
    *
@@ -183,8 +400,15 @@ export class ProductsResource {
    * });
    * ```
    */
-  public async getById(id: number): Promise<ProductDetails> {
-    const response = await this.http.get("/produto.obter.php", { id });
+  public async getById(
+    id: number,
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductDetails> {
+    const response = await this.http.get(
+      "/produto.obter.php",
+      { id },
+      requestOptions
+    );
 
     const typedResponse = response as ApiProductGetSuccessResponse;
 
@@ -221,6 +445,398 @@ export class ProductsResource {
     } as ProductDetails;
   }
 
+  /**
+   * Obtém os detalhes completos do produto com o código (SKU) informado.
+   *
+   * Pesquisa o código e considera apenas os produtos cujo `codigo` é
+   * exatamente igual ao informado, ignorando os excluídos (situação "E").
+   * O produto encontrado é obtido em detalhe via `getById()`.
+   *
+   * **Endpoints:** `POST /produtos.pesquisa.php` e `POST /produto.obter.php`
+   *
+   * @param codigo - Código (SKU) do produto
+   * @param requestOptions - Opções das chamadas (AbortSignal, timeout)
+   * @returns Promise com os detalhes completos do produto
+   *
+   * @throws {TinyNotFoundError} Se nenhum produto tiver exatamente este código
+   * @throws {TinyAmbiguousResultError} Se mais de um produto tiver este código
+   * @throws {TinyApiError} Lança erro se alguma requisição à API falhar
+   *
+   * @example
+   * ```typescript
+   * const produto = await products.getByCodigo("CAM-AZUL-P");
+   * console.log(produto.id, produto.nome);
+   * ```
+   */
+  public async getByCodigo(
+    codigo: string,
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductDetails> {
+    const matches = await this.findExact(
+      codigo,
+      {},
+      (produto) => produto.codigo === codigo,
+      requestOptions
+    );
+    return this.getSingle(matches, `o código "${codigo}"`, requestOptions);
+  }
+
+  /**
+   * Obtém os detalhes completos do produto com o GTIN/EAN informado.
+   *
+   * Pesquisa pelo filtro `gtin` e considera apenas os produtos cujo `gtin`
+   * é exatamente igual ao informado, ignorando os excluídos (situação
+   * "E"). O produto encontrado é obtido em detalhe via `getById()`.
+   *
+   * **Endpoints:** `POST /produtos.pesquisa.php` e `POST /produto.obter.php`
+   *
+   * @param gtin - GTIN/EAN do produto
+   * @param requestOptions - Opções das chamadas (AbortSignal, timeout)
+   * @returns Promise com os detalhes completos do produto
+   *
+   * @throws {TinyNotFoundError} Se nenhum produto tiver exatamente este GTIN
+   * @throws {TinyAmbiguousResultError} Se mais de um produto tiver este GTIN (ex: variações com o mesmo EAN)
+   * @throws {TinyApiError} Lança erro se alguma requisição à API falhar
+   *
+   * @example
+   * ```typescript
+   * const produto = await products.getByGtin("7891234567890");
+   * ```
+   */
+  public async getByGtin(
+    gtin: string,
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductDetails> {
+    const matches = await this.findExact(
+      "",
+      { gtin },
+      (produto) => produto.gtin === gtin,
+      requestOptions
+    );
+    return this.getSingle(matches, `o GTIN "${gtin}"`, requestOptions);
+  }
+
+  /**
+   * Obtém a árvore de categorias de produtos da conta.
+   *
+   * Cada categoria traz apenas o nome do seu nível (`descricao`) e as
+   * subcategorias (`nodes`). Use `findCategoryByPath()` para localizar uma
+   * categoria pelo caminho e `flattenCategoryTree()` para obter os
+   * caminhos completos ("A >> B >> C") aceitos pelo campo `categoria` na
+   * inclusão e alteração de produtos.
+   *
+   * **Endpoint:** `POST /produtos.categorias.arvore.php`
+   *
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promise com as categorias de primeiro nível e suas subcategorias
+   *
+   * @throws {TinyApiError} Lança erro se a requisição à API falhar
+   *
+   * @example
+   * ```typescript
+   * const tree = await products.getCategoryTree();
+   *
+   * for (const { id, caminho } of flattenCategoryTree(tree)) {
+   *   console.log(id, caminho); // 12 "Roupas >> Camisetas"
+   * }
+   * ```
+   */
+  public async getCategoryTree(
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductCategory[]> {
+    const response = await this.http.get(
+      "/produtos.categorias.arvore.php",
+      {},
+      requestOptions
+    );
+
+    const typedResponse = response as ApiProductCategoryTreeResponse;
+
+    return typedResponse.itens.map(toProductCategory);
+  }
+
+  /**
+   * Obtém a estrutura de produção de um produto fabricado: os componentes
+   * (lista de materiais) e as etapas de produção.
+   *
+   * As quantidades são por unidade produzida; multiplique pela quantidade
+   * a produzir para calcular a necessidade de cada componente.
+   *
+   * **Endpoint:** `POST /produto.obter.estrutura.php`
+   *
+   * @param id - ID único do produto fabricado no TinyERP
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promise que resolve com os componentes e as etapas do produto
+   *
+   * @throws {TinyApiError} Lança erro se o produto não existir ou a requisição falhar
+   *
+   * @example
+   * ```typescript
+   * const { estrutura, etapas } = await products.getStructure(12345);
+   *
+   * const necessidade = estrutura.map(item => ({
+   *   codigo: item.codigo,
+   *   quantidade: item.quantidade * 50, // para produzir 50 unidades
+   * }));
+   * console.log(etapas.map(e => e.nome).join(" → "));
+   * ```
+   */
+  public async getStructure(
+    id: number,
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductStructure> {
+    const response = await this.http.get(
+      "/produto.obter.estrutura.php",
+      { id },
+      requestOptions
+    );
+
+    const produtoApi = (response as ApiProductStructureSuccessResponse).produto;
+
+    return {
+      ...produtoApi,
+      estrutura:
+        produtoApi.estrutura?.map(({ item }) => ({
+          ...item,
+          quantidade: Number(item.quantidade),
+        })) ?? [],
+      etapas: produtoApi.etapas?.map((e) => e.etapa) ?? [],
+    };
+  }
+
+  /**
+   * Obtém as tags associadas a um produto.
+   *
+   * Para obter o nome do grupo de cada tag, use `sdk.tag.searchGroups()`.
+   *
+   * **Endpoint:** `POST /produto.obter.tags.php`
+   *
+   * @param id - ID único do produto no TinyERP
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promise que resolve com as tags do produto (vazia se não houver)
+   *
+   * @throws {TinyApiError} Lança erro se o produto não existir ou a requisição falhar
+   *
+   * @example
+   * ```typescript
+   * const tags = await products.getTags(12345);
+   * console.log(tags.map(t => t.nome).join(", "));
+   * ```
+   */
+  public async getTags(
+    id: number,
+    requestOptions?: TinyRequestOptions
+  ): Promise<Tag[]> {
+    const response = await this.http.get(
+      "/produto.obter.tags.php",
+      { id },
+      requestOptions
+    );
+
+    const typedResponse = response as ApiProductTagsSuccessResponse;
+
+    return typedResponse.produto.tags?.map((t) => t.tag) ?? [];
+  }
+
+  /**
+   * Obtém o estoque atual de um produto, com o saldo total, o saldo
+   * reservado e o saldo em cada depósito.
+   *
+   * O saldo total considera apenas os depósitos com `desconsiderar: "N"`;
+   * o saldo disponível para venda é `saldo - saldoReservado`.
+   *
+   * **Endpoint:** `POST /produto.obter.estoque.php`
+   *
+   * @param id - ID único do produto no TinyERP
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promise que resolve com o estoque do produto
+   *
+   * @throws {TinyApiError} Lança erro se o produto não existir ou a requisição falhar
+   *
+   * @example
+   * ```typescript
+   * const estoque = await products.getStock(12345);
+   *
+   * console.log(`Disponível: ${estoque.saldo - estoque.saldoReservado}`);
+   * estoque.depositos.forEach(d => {
+   *   console.log(`${d.nome}: ${d.saldo}`);
+   * });
+   * ```
+   */
+  public async getStock(
+    id: number,
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductStock> {
+    const response = await this.http.get(
+      "/produto.obter.estoque.php",
+      { id },
+      requestOptions
+    );
+
+    const produtoApi = (response as ApiProductStockSuccessResponse).produto;
+
+    return {
+      ...produtoApi,
+      depositos: produtoApi.depositos?.map((d) => d.deposito) ?? [],
+    };
+  }
+
+  /**
+   * Obtém o estoque de vários produtos, com até `concurrency` requisições
+   * em paralelo (padrão: 1).
+   *
+   * Os resultados seguem a ordem dos IDs informados. Na primeira falha,
+   * nenhuma nova consulta é iniciada e o erro é lançado.
+   *
+   * **Endpoint:** `POST /produto.obter.estoque.php` (uma requisição por produto)
+   *
+   * @param ids - IDs dos produtos no TinyERP
+   * @param options - Paralelismo, AbortSignal e timeout de cada requisição
+   * @returns Promise que resolve com o estoque de cada produto
+   *
+   * @throws {TinyApiError} Lança erro se a consulta de algum produto falhar
+   *
+   * @example
+   * ```typescript
+   * const estoques = await products.getStocks([101, 102, 103], {
+   *   concurrency: 3,
+   * });
+   *
+   * const indisponiveis = estoques.filter(e => e.saldo - e.saldoReservado <= 0);
+   * ```
+   */
+  public async getStocks(
+    ids: number[],
+    options: TinyBatchOptions = {}
+  ): Promise<ProductStock[]> {
+    const { signal, timeout } = options;
+    return mapConcurrent(ids, options.concurrency ?? 1, (id) =>
+      this.getStock(id, { signal, timeout })
+    );
+  }
+
+  /**
+   * Lista os produtos cujo estoque foi alterado desde a data informada,
+   * percorrendo todas as páginas da consulta.
+   *
+   * É a forma mais econômica de manter o estoque de marketplaces e lojas
+   * sincronizado: cada produto vem com o saldo atual e os depósitos.
+   *
+   * O resultado inclui `proximaConsulta`, a data em que esta consulta
+   * começou (recuada de `SYNC_OVERLAP_MS`), a ser usada como `since` na
+   * próxima execução (veja `HighWaterMark` para persisti-la). Um produto
+   * alterado durante a paginação pode aparecer em duas páginas; é mantida
+   * apenas a última ocorrência, com o saldo mais atual.
+   *
+   * **Endpoint:** `POST /lista.atualizacoes.estoque.php`
+   *
+   * @param since - Data da última sincronização; strings no formato "dd/mm/aaaa hh:mm:ss"
+   * @param options - Paralelismo das páginas, AbortSignal e timeout de cada requisição
+   * @returns Promise que resolve com os produtos alterados e a data da próxima consulta
+   *
+   * @throws {TinyApiError} Lança erro se a requisição de alguma página falhar
+   *
+   * @example
+   * ```typescript
+   * const { produtos, proximaConsulta } = await products.stockUpdatesSince(
+   *   ultimaSincronizacao
+   * );
+   *
+   * for (const p of produtos) {
+   *   await marketplace.setStock(p.codigo, p.saldo - p.saldoReservado);
+   * }
+   * ultimaSincronizacao = proximaConsulta;
+   * ```
+   */
+  public async stockUpdatesSince(
+    since: Date | string,
+    options: TinyBatchOptions = {}
+  ): Promise<ProductStockChangesResult> {
+    const proximaConsulta = nextSyncDate();
+
+    const produtos = await this.listUpdatesSince(
+      "/lista.atualizacoes.estoque.php",
+      since,
+      options,
+      (response: ApiProductStockChangesResponse) =>
+        response.produtos.map(({ produto }) => ({
+          ...produto,
+          depositos: produto.depositos?.map((d) => d.deposito) ?? [],
+        }))
+    );
+
+    return { produtos, proximaConsulta };
+  }
+
+  /**
+   * Lança uma movimentação de estoque de um produto: entrada (`"E"`),
+   * saída (`"S"`) ou balanço (`"B"`, que define o saldo do depósito).
+   *
+   * Movimentações não são repetidas automaticamente após falhas de rede,
+   * pois a API pode ter processado a requisição; nesse caso, confira o
+   * saldo com `getStock()` antes de reenviar.
+   *
+   * **Endpoint:** `POST /produto.atualizar.estoque.php`
+   *
+   * @param input - Dados da movimentação
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promise que resolve com o ID do produto e o saldo após a movimentação
+   *
+   * @throws {TinyApiError} Lança erro se a API rejeitar a movimentação ou a requisição falhar
+   * @throws {TinyInvalidResponseError} Lança erro se a resposta não trouxer o registro da movimentação
+   *
+   * @example
+   * ```typescript
+   * const { saldoEstoque } = await products.updateStock({
+   *   idProduto: 12345,
+   *   tipo: "E",
+   *   quantidade: 20,
+   *   precoUnitario: 35.5,
+   *   deposito: "Geral",
+   *   observacoes: "Recebimento NF 1234",
+   * });
+   * ```
+   */
+  public async updateStock(
+    input: ProductStockUpdateInput,
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductStockUpdateResult> {
+    const endpoint = "/produto.atualizar.estoque.php";
+
+    const body = { estoque: { estoque: input } };
+
+    const response = await this.http.post(endpoint, body, requestOptions);
+
+    await this.http.invalidateCache(STOCK_READ_ENDPOINTS);
+
+    const typedResponse = response as ApiProductStockUpdateSuccessResponse;
+    const registro = typedResponse.registros?.[0]?.registro;
+
+    if (!registro) {
+      throw new TinyInvalidResponseError(
+        "A API Tiny retornou uma resposta sem o registro da movimentação de estoque.",
+        endpoint,
+        200
+      );
+    }
+
+    if (registro.status === "Erro") {
+      throw createTinyApiError(
+        {
+          status_processamento: typedResponse.status_processamento,
+          codigo_erro: registro.codigo_erro ?? "",
+          erros: registro.erros ?? [],
+        },
+        { endpoint }
+      );
+    }
+
+    return {
+      id: Number(registro.id),
+      saldoEstoque: Number(registro.saldoEstoque),
+    };
+  }
+
   /**
    * Cria um ou mais produtos no TinyERP em lote (batch).
    *
@@ -232,6 +848,7 @@ export class ProductsResource {
    * de cada um, indicando sucesso (com ID do produto criado) ou erro (com detalhes do problema).
    *
    * @param products - Array de produtos a serem criados, cada um com sequência e dados
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
    *
    * @returns Promise com array de resultados individuais para cada produto
    *          - Para produtos criados com sucesso: status="OK" e o ID do produto
@@ -380,7 +997,8 @@ export class ProductsResource {
    * ```
    */
   public async create(
-    products: ProductCreateEntry[]
+    products: ProductCreateEntry[],
+    requestOptions?: TinyRequestOptions
   ): Promise<ProductCreateResultRecord[]> {
     const apiPayload = {
       produtos: products.map((entry) => {
@@ -438,10 +1056,16 @@ export class ProductsResource {
     };
 
     const body = {
-      produto: JSON.stringify(apiPayload),
+      produto: apiPayload,
     };
 
-    const response = await this.http.post("/produto.incluir.php", body);
+    const response = await this.http.post(
+      "/produto.incluir.php",
+      body,
+      requestOptions
+    );
+
+    await this.http.invalidateCache(PRODUCT_READ_ENDPOINTS);
 
     const typedResponse = response as ProductCreateSuccessResponse;
 
@@ -449,4 +1073,289 @@ export class ProductsResource {
 
     return cleanResults;
   }
+
+  /**
+   * Altera um ou mais produtos existentes no TinyERP em lote (batch).
+   *
+   * Cada produto deve informar o `id` ou o `codigo` para identificação,
+   * além dos campos a serem alterados. Apenas os campos informados são
+   * enviados; listas omitidas (variações, kit, anexos, etc.) não são
+   * alteradas.
+   *
+   * Assim como em `create`, cada produto tem um número de sequência e a API
+   * retorna o resultado individual de cada um.
+   *
+   * **Endpoint:** `POST /produto.alterar.php`
+   *
+   * @param products - Array de produtos a serem alterados, cada um com sequência e dados
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   *
+   * @returns Promise com array de resultados individuais para cada produto
+   *          - Para produtos alterados com sucesso: status="OK" e o ID do produto
+   *          - Para produtos com erro: status="Erro", código de erro e lista de erros
+   *
+   * @throws {TinyApiError} Lança erro se a requisição à API falhar
+   *
+   * @example
+   * ```typescript
+   * const result = await products.update([
+   *   { sequencia: 1, data: { id: 12345, preco: 3299.90 } },
+   *   { sequencia: 2, data: { codigo: "MOUSE-01", situacao: "I" } },
+   * ]);
+   *
+   * result.forEach(r => {
+   *   if (r.status === "Erro") {
+   *     console.error(`Erro na sequência ${r.sequencia}:`, r.erros);
+   *   }
+   * });
+   * ```
+   */
+  public async update(
+    products: ProductUpdateEntry[],
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductCreateResultRecord[]> {
+    const apiPayload = {
+      produtos: products.map(({ data, sequencia }) => ({
+        produto: {
+          ...wrapProductLists(data),
+          sequencia,
+        },
+      })),
+    };
+
+    const body = {
+      produto: apiPayload,
+    };
+
+    const response = await this.http.post(
+      "/produto.alterar.php",
+      body,
+      requestOptions
+    );
+
+    await this.http.invalidateCache(PRODUCT_READ_ENDPOINTS);
+
+    const typedResponse = response as ProductCreateSuccessResponse;
+
+    const cleanResults = typedResponse.registros.map((r) => r.registro);
+
+    return cleanResults;
+  }
+
+  /**
+   * Atualiza apenas os preços (`preco` e `preco_promocional`) de um ou mais
+   * produtos, identificados pelo `id` ou pelo `codigo`.
+   *
+   * A lista é dividida automaticamente em lotes de até 100 produtos (o
+   * limite da API por chamada), enviados em sequência. Cada produto recebe
+   * um resultado individual, no mesmo formato de `create()`, em que
+   * `sequencia` é a posição do produto na lista informada (começando em 1).
+   *
+   * Se a requisição de um lote falhar, o erro é lançado e os lotes
+   * anteriores permanecem aplicados; como a atualização de preços é
+   * idempotente, a lista inteira pode ser reenviada com segurança.
+   *
+   * **Endpoint:** `POST /produto.atualizar.precos.php` (uma requisição por lote)
+   *
+   * @param prices - Produtos e seus novos preços
+   * @param requestOptions - Opções de cada chamada (AbortSignal, timeout)
+   * @returns Promise com o resultado individual de cada produto, na ordem informada
+   *
+   * @throws {TinyApiError} Lança erro se a requisição de algum lote falhar
+   *
+   * @example
+   * ```typescript
+   * const resultados = await products.updatePrices([
+   *   { id: 12345, preco: 99.9 },
+   *   { codigo: "CAM-01", preco: 59.9, preco_promocional: 49.9 },
+   * ]);
+   *
+   * const falhas = resultados.filter(r => r.status === "Erro");
+   * ```
+   */
+  public async updatePrices(
+    prices: ProductPriceUpdateInput[],
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductCreateResultRecord[]> {
+    const results: ProductCreateResultRecord[] = [];
+
+    try {
+      for (
+        let offset = 0;
+        offset < prices.length;
+        offset += PRICE_UPDATE_CHUNK_SIZE
+      ) {
+        const chunk = prices.slice(offset, offset + PRICE_UPDATE_CHUNK_SIZE);
+
+        const response = await this.http.post(
+          "/produto.atualizar.precos.php",
+          { data: { precos: chunk } },
+          requestOptions
+        );
+
+        const typedResponse = response as ProductCreateSuccessResponse;
+
+        // A API numera os registros de cada lote a partir de 1
+        typedResponse.registros.forEach(({ registro }, index) => {
+          results.push({ ...registro, sequencia: offset + index + 1 });
+        });
+      }
+    } finally {
+      if (prices.length > 0) {
+        await this.http.invalidateCache(PRODUCT_READ_ENDPOINTS);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Percorre as páginas de uma pesquisa e retorna os produtos não
+   * excluídos que atendem exatamente ao critério (a pesquisa da API
+   * também encontra correspondências parciais, como nomes).
+   *
+   * A paginação para no segundo produto encontrado, quando a ambiguidade
+   * já está decidida. As páginas são obtidas uma a uma, para que nenhuma
+   * requisição seja feita além da página em que a busca termina; não há
+   * limite de itens, pois a correspondência exata pode estar em qualquer
+   * página.
+   */
+  private async findExact(
+    pesquisa: string,
+    options: ProductsSearchOptions,
+    matches: (produto: Product) => boolean,
+    requestOptions: TinyRequestOptions = {}
+  ): Promise<Product[]> {
+    const { signal, timeout, cache } = requestOptions;
+    const found: Product[] = [];
+
+    for await (const produto of this.iterate(pesquisa, options, {
+      signal,
+      timeout,
+      cache,
+      concurrency: 1,
+    })) {
+      if (produto.situacao !== "E" && matches(produto)) {
+        found.push(produto);
+        if (found.length > 1) {
+          break;
+        }
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Obtém em detalhe o único produto encontrado, ou lança o erro de
+   * ausência ou de ambiguidade.
+   */
+  private async getSingle(
+    matches: Product[],
+    criterio: string,
+    requestOptions?: TinyRequestOptions
+  ): Promise<ProductDetails> {
+    const endpoint = "/produtos.pesquisa.php";
+
+    if (matches.length === 0) {
+      throw new TinyNotFoundError(
+        {
+          status_processamento: 2,
+          codigo_erro: 32,
+          erros: [{ erro: `Nenhum produto encontrado com ${criterio}.` }],
+        },
+        { endpoint }
+      );
+    }
+
+    if (matches.length > 1) {
+      throw new TinyAmbiguousResultError(
+        `Mais de um produto encontrado com ${criterio}.`,
+        endpoint,
+        matches.map((produto) => produto.id)
+      );
+    }
+
+    return this.getById(matches[0].id, requestOptions);
+  }
+
+  /**
+   * Percorre todas as páginas de uma listagem de atualizações
+   * (`lista.atualizacoes.*.php`) desde a data informada.
+   *
+   * Um produto alterado durante a paginação pode aparecer em duas páginas;
+   * é mantida apenas a última ocorrência, na posição em que ela aparece.
+   */
+  private async listUpdatesSince<
+    TResponse extends { status: "OK"; numero_paginas: number },
+    T extends { id: number },
+  >(
+    endpoint: string,
+    since: Date | string,
+    options: TinyBatchOptions,
+    toItems: (response: TResponse) => T[]
+  ): Promise<T[]> {
+    const { signal, timeout } = options;
+
+    const changed = await collect(
+      paginate<T>(
+        async (pagina, pageSignal) => {
+          const response = await this.http.get(
+            endpoint,
+            { dataAlteracao: since, pagina },
+            { signal: pageSignal, timeout }
+          );
+
+          const typedResponse = response as TResponse;
+
+          return {
+            items: toItems(typedResponse),
+            numero_paginas: typedResponse.numero_paginas,
+          };
+        },
+        { concurrency: options.concurrency, signal }
+      )
+    );
+
+    return dedupeById(changed);
+  }
+}
+
+/**
+ * "Embrulha" as listas de um produto no formato da API, mantendo
+ * indefinidas as listas não informadas (para que uma alteração não
+ * apague variações, anexos, etc. que não foram enviados).
+ */
+function wrapProductLists(data: ProductUpdateInput) {
+  return {
+    ...data,
+    anexos: data.anexos?.map((url) => ({ anexo: url })),
+    imagens_externas: data.imagens_externas?.map((img) => ({
+      imagem_externa: img,
+    })),
+    kit: data.kit?.map((item) => ({ item })),
+    estrutura: data.estrutura?.map((item) => ({ item })),
+    etapas: data.etapas?.map((etapa) => ({ etapa })),
+    variacoes: data.variacoes?.map((variacao) => ({
+      variacao: {
+        ...variacao,
+        mapeamentos: variacao.mapeamentos?.map((m) => ({ mapeamento: m })),
+      },
+    })),
+    mapeamentos: data.mapeamentos?.map((m) => ({ mapeamento: m })),
+  };
+}
+
+/**
+ * Converte uma categoria da API (com `id` às vezes em string e `nodes`
+ * ausente nas folhas) para `ProductCategory`.
+ */
+function toProductCategory(
+  node: ApiProductCategoryTreeResponse["itens"][number]
+): ProductCategory {
+  return {
+    id: Number(node.id),
+    descricao: node.descricao,
+    nodes: (node.nodes ?? []).map(toProductCategory),
+  };
 }
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TinySDK } from "../index.js";
+import { TinyApiError } from "../errors/tiny-api-error.js";
+import type {
+  TagCreateSuccessResponse,
+  TagGroupSearchSuccessResponse,
+  TagSearchSuccessResponse,
+} from "../types/tags.js";
+
+const MOCK_TOKEN = "test_token_123";
+
+const mockErrorResponse = {
+  retorno: {
+    status_processamento: 2,
+    status: "Erro",
+    codigo_erro: 32,
+    erros: [{ erro: "Token inválido ou expirado" }],
+  },
+};
+
+const mockTagSearchResponse: TagSearchSuccessResponse = {
+  status_processamento: 3,
+  status: "OK",
+  pagina: 1,
+  numero_paginas: 1,
+  tags: [
+    { tag: { id: 1, nome: "Lançamento", id_grupo: 10 } },
+    { tag: { id: 2, nome: "Promoção", id_grupo: 10 } },
+  ],
+};
+
+const mockGroupSearchResponse: TagGroupSearchSuccessResponse = {
+  status_processamento: 3,
+  status: "OK",
+  pagina: 1,
+  numero_paginas: 1,
+  grupos: [{ grupo: { id: 10, nome: "Campanhas" } }],
+};
+
+const mockCreateResponse: TagCreateSuccessResponse = {
+  status_processamento: 3,
+  status: "OK",
+  registros: [{ registro: { sequencia: 1, status: "OK", id: 99 } }],
+};
+
+const jsonResponse = (retorno: unknown) =>
+  new Response(JSON.stringify({ retorno }), { status: 200 });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("Tags Resource (sdk.tag)", () => {
+  describe("search()", () => {
+    it("deve pesquisar tags e desencapsular o resultado", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockTagSearchResponse));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.tag.search("promo", { idGrupo: 10 });
+
+      const expectedUrl = `https://api.tiny.com.br/api2/tags.pesquisa.php?token=${MOCK_TOKEN}&formato=json&pesquisa=promo&idGrupo=10`;
+      expect(fetchMock).toHaveBeenCalledWith(
+        expectedUrl,
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(result).toEqual({
+        tags: [
+          { id: 1, nome: "Lançamento", id_grupo: 10 },
+          { id: 2, nome: "Promoção", id_grupo: 10 },
+        ],
+        pagina: 1,
+        numero_paginas: 1,
+      });
+    });
+
+    it("deve lançar um TinyApiError se a pesquisa falhar", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(mockErrorResponse), { status: 200 })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+
+      await expect(sdk.tag.search("")).rejects.toBeInstanceOf(TinyApiError);
+    });
+  });
+
+  describe("searchAll()", () => {
+    it("deve percorrer todas as páginas", async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+        const pagina = Number(new URL(url).searchParams.get("pagina"));
+        return jsonResponse({
+          ...mockTagSearchResponse,
+          pagina,
+          numero_paginas: 2,
+          tags: [{ tag: { id: pagina, nome: `Tag ${pagina}`, id_grupo: 10 } }],
+        });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const tags = await sdk.tag.searchAll("");
+
+      expect(tags.map((t) => t.nome)).toEqual(["Tag 1", "Tag 2"]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("create()", () => {
+    it('deve "encapsular" as tags e invalidar o cache da pesquisa', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async (url: string) =>
+          jsonResponse(
+            url.includes("tag.incluir.php")
+              ? mockCreateResponse
+              : mockTagSearchResponse
+          )
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN, {
+        cache: { ttlMs: { "/tags.pesquisa.php": 60_000 } },
+      });
+      await sdk.tag.search("");
+
+      const result = await sdk.tag.create([
+        { sequencia: 1, data: { nome: "Black Friday", id_grupo: 10 } },
+      ]);
+
+      const [url, init] = fetchMock.mock.calls[1];
+      expect(url).toBe(
+        `https://api.tiny.com.br/api2/tag.incluir.php?token=${MOCK_TOKEN}&formato=json`
+      );
+      const body = init.body as URLSearchParams;
+      expect(JSON.parse(body.get("tag") || "{}")).toEqual({
+        tags: [{ tag: { nome: "Black Friday", id_grupo: 10, sequencia: 1 } }],
+      });
+      expect(result).toEqual([{ sequencia: 1, status: "OK", id: 99 }]);
+
+      await sdk.tag.search("");
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("searchGroups() e createGroups()", () => {
+    it("deve pesquisar grupos e desencapsular o resultado", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockGroupSearchResponse));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.tag.searchGroups("Camp");
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.pathname).toBe("/api2/grupos.tags.pesquisa.php");
+      expect(url.searchParams.get("pesquisa")).toBe("Camp");
+      expect(result.grupos).toEqual([{ id: 10, nome: "Campanhas" }]);
+    });
+
+    it('deve "encapsular" os grupos na criação', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(mockCreateResponse));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const sdk = new TinySDK(MOCK_TOKEN);
+      const result = await sdk.tag.createGroups([
+        { sequencia: 1, data: { nome: "Campanhas" } },
+      ]);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(new URL(url).pathname).toBe("/api2/grupo.tag.incluir.php");
+      const body = init.body as URLSearchParams;
+      expect(JSON.parse(body.get("grupo") || "{}")).toEqual({
+        grupos: [{ grupo: { nome: "Campanhas", sequencia: 1 } }],
+      });
+      expect(result[0].id).toBe(99);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import type { TinyV2HttpClient } from "../http-client.js";
+import type {
+  PaginatedTagGroupsResponse,
+  PaginatedTagsResponse,
+  Tag,
+  TagCreateEntry,
+  TagCreateResultRecord,
+  TagCreateSuccessResponse,
+  TagGroupCreateEntry,
+  TagGroupSearchSuccessResponse,
+  TagGroupsSearchOptions,
+  TagSearchSuccessResponse,
+  TagsSearchOptions,
+} from "../types/tags.js";
+import type {
+  TinyPaginationOptions,
+  TinyRequestOptions,
+} from "../types/client.js";
+import { collect, paginateSearch } from "../pagination.js";
+
+/**
+ * Resource para gerenciamento das tags de produtos e seus grupos.
+ *
+ * As tags são referenciadas pelo ID nos produtos (`idTag` na pesquisa e
+ * `tags` na inclusão); este resource permite descobrir esses IDs a partir
+ * dos nomes e criar novas tags e grupos.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new TinySDK('seu-token');
+ *
+ * const { tags } = await sdk.tag.search('promoção');
+ * await sdk.product.search('', { idTag: tags[0].id });
+ * ```
+ */
+export class TagsResource {
+  private readonly http: TinyV2HttpClient;
+
+  /**
+   * Cria uma instância do TagsResource.
+   *
+   * @param httpClient - Cliente HTTP configurado com o token da API
+   * @internal
+   */
+  constructor(httpClient: TinyV2HttpClient) {
+    this.http = httpClient;
+  }
+
+  /**
+   * Pesquisa tags pelo nome, opcionalmente dentro de um grupo.
+   *
+   * **Endpoint:** `POST /tags.pesquisa.php`
+   *
+   * @param pesquisa - Nome ou parte do nome da tag (pode ser vazio para listar todas)
+   * @param options - Filtro por grupo (`idGrupo`) e página
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promessa com as tags encontradas e informações de paginação
+   *
+   * @throws {TinyApiError} Quando há erro na API
+   *
+   * @example
+   * ```typescript
+   * const { tags } = await sdk.tag.search('verão', { idGrupo: 10 });
+   * ```
+   */
+  public async search(
+    pesquisa: string,
+    options: TagsSearchOptions = {},
+    requestOptions?: TinyRequestOptions
+  ): Promise<PaginatedTagsResponse> {
+    const response = await this.http.get(
+      "/tags.pesquisa.php",
+      { pesquisa, ...options },
+      requestOptions
+    );
+
+    const typedResponse = response as TagSearchSuccessResponse;
+
+    return {
+      tags: typedResponse.tags.map((item) => item.tag),
+      pagina: typedResponse.pagina,
+      numero_paginas: typedResponse.numero_paginas,
+    };
+  }
+
+  /**
+   * Percorre todas as páginas de uma pesquisa de tags, entregando uma tag
+   * por vez. Aceita as mesmas opções de paginação de
+   * `sdk.product.iterate()`.
+   *
+   * @param pesquisa - Nome ou parte do nome da tag (pode ser vazio para listar todas)
+   * @param options - Filtro por grupo; `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   * @returns Iterador assíncrono com as tags encontradas
+   *
+   * @throws {TinyApiError} Quando a requisição de alguma página falhar
+   */
+  public async *iterate(
+    pesquisa: string,
+    options: TagsSearchOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): AsyncGenerator<Tag, void, undefined> {
+    yield* paginateSearch(
+      pesquisa,
+      options,
+      paginationOptions,
+      async (pagina, requestOptions) => {
+        const page = await this.search(
+          pesquisa,
+          { ...options, pagina },
+          requestOptions
+        );
+        return { items: page.tags, numero_paginas: page.numero_paginas };
+      }
+    );
+  }
+
+  /**
+   * Obtém todas as tags de uma pesquisa, percorrendo todas as páginas.
+   *
+   * Útil para montar um mapa de nomes para IDs antes de criar produtos.
+   *
+   * @param pesquisa - Nome ou parte do nome da tag (pode ser vazio para listar todas)
+   * @param options - Filtro por grupo; `pagina` define a página inicial
+   * @param paginationOptions - Limite de itens, paralelismo, checkpoints e opções de cada chamada (AbortSignal, timeout)
+   * @returns Promessa com todas as tags encontradas
+   *
+   * @throws {TinyApiError} Quando a requisição de alguma página falhar
+   *
+   * @example
+   * ```typescript
+   * const tags = await sdk.tag.searchAll('');
+   * const idPorNome = new Map(tags.map(t => [t.nome, t.id]));
+   *
+   * await sdk.product.create([{
+   *   sequencia: 1,
+   *   data: { ...produto, tags: [idPorNome.get('Lançamento')!] },
+   * }]);
+   * ```
+   */
+  public async searchAll(
+    pesquisa: string,
+    options: TagsSearchOptions = {},
+    paginationOptions: TinyPaginationOptions = {}
+  ): Promise<Tag[]> {
+    return collect(this.iterate(pesquisa, options, paginationOptions));
+  }
+
+  /**
+   * Cria uma ou mais tags em lote (batch).
+   *
+   * **Endpoint:** `POST /tag.incluir.php`
+   *
+   * @param tags - Array de tags a serem criadas, cada uma com sequência e dados
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promessa com o resultado individual de cada tag
+   *
+   * @throws {TinyApiError} Quando a requisição à API falhar
+   *
+   * @example
+   * ```typescript
+   * const [result] = await sdk.tag.create([
+   *   { sequencia: 1, data: { nome: 'Black Friday', id_grupo: 10 } },
+   * ]);
+   * console.log(result.id);
+   * ```
+   */
+  public async create(
+    tags: TagCreateEntry[],
+    requestOptions?: TinyRequestOptions
+  ): Promise<TagCreateResultRecord[]> {
+    const apiPayload = {
+      tags: tags.map(({ data, sequencia }) => ({
+        tag: { ...data, sequencia },
+      })),
+    };
+
+    const response = await this.http.post(
+      "/tag.incluir.php",
+      { tag: apiPayload },
+      requestOptions
+    );
+
+    await this.http.invalidateCache(["/tags.pesquisa.php"]);
+
+    const typedResponse = response as TagCreateSuccessResponse;
+
+    return typedResponse.registros.map((r) => r.registro);
+  }
+
+  /**
+   * Pesquisa grupos de tags pelo nome.
+   *
+   * **Endpoint:** `POST /grupos.tags.pesquisa.php`
+   *
+   * @param pesquisa - Nome ou parte do nome do grupo (pode ser vazio para listar todos)
+   * @param options - Página
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promessa com os grupos encontrados e informações de paginação
+   *
+   * @throws {TinyApiError} Quando há erro na API
+   *
+   * @example
+   * ```typescript
+   * const { grupos } = await sdk.tag.searchGroups('Coleções');
+   * ```
+   */
+  public async searchGroups(
+    pesquisa: string,
+    options: TagGroupsSearchOptions = {},
+    requestOptions?: TinyRequestOptions
+  ): Promise<PaginatedTagGroupsResponse> {
+    const response = await this.http.get(
+      "/grupos.tags.pesquisa.php",
+      { pesquisa, ...options },
+      requestOptions
+    );
+
+    const typedResponse = response as TagGroupSearchSuccessResponse;
+
+    return {
+      grupos: typedResponse.grupos.map((item) => item.grupo),
+      pagina: typedResponse.pagina,
+      numero_paginas: typedResponse.numero_paginas,
+    };
+  }
+
+  /**
+   * Cria um ou mais grupos de tags em lote (batch).
+   *
+   * **Endpoint:** `POST /grupo.tag.incluir.php`
+   *
+   * @param groups - Array de grupos a serem criados, cada um com sequência e dados
+   * @param requestOptions - Opções da chamada (AbortSignal, timeout)
+   * @returns Promessa com o resultado individual de cada grupo
+   *
+   * @throws {TinyApiError} Quando a requisição à API falhar
+   *
+   * @example
+   * ```typescript
+   * const [grupo] = await sdk.tag.createGroups([
+   *   { sequencia: 1, data: { nome: 'Campanhas' } },
+   * ]);
+   * ```
+   */
+  public async createGroups(
+    groups: TagGroupCreateEntry[],
+    requestOptions?: TinyRequestOptions
+  ): Promise<TagCreateResultRecord[]> {
+    const apiPayload = {
+      grupos: groups.map(({ data, sequencia }) => ({
+        grupo: { ...data, sequencia },
+      })),
+    };
+
+    const response = await this.http.post(
+      "/grupo.tag.incluir.php",
+      { grupo: apiPayload },
+      requestOptions
+    );
+
+    await this.http.invalidateCache(["/grupos.tags.pesquisa.php"]);
+
+    const typedResponse = response as TagCreateSuccessResponse;
+
+    return typedResponse.registros.map((r) => r.registro);
+  }
+}
@@ -0,0 +1,94 @@
+import type { TinyRetryOptions } from "./types/client.js";
+
+/**
+ * Política de novas tentativas com todos os valores padrão resolvidos.
+ *
+ * @internal
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryableErrorCodes: Set<string>;
+  retryableStatuses: Set<number>;
+  retryNonIdempotent: boolean;
+}
+
+/**
+ * Códigos de erro da API v2 considerados transitórios por padrão:
+ * 6 e 11 (bloqueio por excesso de acessos) e 99 (sistema em manutenção).
+ * Em todos eles a API rejeita a requisição sem processá-la.
+ */
+const DEFAULT_RETRYABLE_ERROR_CODES = [6, 11, 99];
+
+/** Status HTTP considerados transitórios por padrão. */
+const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Resolve as opções de retry informadas pelo utilizador.
+ *
+ * Sem opções, o retry fica desativado (`maxAttempts: 1`).
+ *
+ * @internal
+ */
+export function resolveRetryPolicy(options?: TinyRetryOptions): RetryPolicy {
+  return {
+    maxAttempts: options ? (options.maxAttempts ?? 3) : 1,
+    baseDelayMs: options?.baseDelayMs ?? 500,
+    maxDelayMs: options?.maxDelayMs ?? 30_000,
+    jitter: options?.jitter ?? true,
+    retryableErrorCodes: new Set(
+      (options?.retryableErrorCodes ?? DEFAULT_RETRYABLE_ERROR_CODES).map(
+        String
+      )
+    ),
+    retryableStatuses: new Set(
+      options?.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES
+    ),
+    retryNonIdempotent: options?.retryNonIdempotent ?? false,
+  };
+}
+
+/**
+ * Calcula o tempo de espera antes da próxima tentativa usando backoff
+ * exponencial (`baseDelayMs * 2^(tentativa - 1)`), limitado a `maxDelayMs`.
+ * Com `jitter`, o valor é sorteado entre 0 e o limite calculado.
+ *
+ * @param policy Política de retry resolvida
+ * @param attempt Número da tentativa que acabou de falhar (começa em 1)
+ * @internal
+ */
+export function computeBackoffDelay(
+  policy: RetryPolicy,
+  attempt: number
+): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+
+  return policy.jitter ? Math.round(Math.random() * exponential) : exponential;
+}
+
+/**
+ * Aguarda `ms` milissegundos, interrompendo a espera se o sinal for abortado.
+ *
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,485 @@
+/**
+ * Interface mínima de logger aceita pelo SDK.
+ *
+ * É compatível com o `console` nativo e com bibliotecas populares
+ * (pino, winston, etc.), permitindo redirecionar as mensagens internas
+ * do SDK para a infraestrutura de logs da aplicação.
+ *
+ * @example
+ * ```typescript
+ * const logger: TinyLogger = {
+ *   debug: (msg, ...args) => pino.debug({ args }, msg),
+ *   warn: (msg, ...args) => pino.warn({ args }, msg),
+ *   error: (msg, ...args) => pino.error({ args }, msg),
+ * };
+ * ```
+ */
+export interface TinyLogger {
+  /** Mensagens de diagnóstico (ex: requisições enviadas) */
+  debug(message: string, ...args: unknown[]): void;
+
+  /** Situações anormais que não interrompem a operação */
+  warn(message: string, ...args: unknown[]): void;
+
+  /** Falhas que resultam em erro para o chamador */
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Configuração do limitador de requisições do cliente HTTP.
+ *
+ * A API v2 do Tiny limita o número de requisições por minuto de acordo com
+ * o plano contratado. Com o limitador ativo, as chamadas que excederiam o
+ * limite ficam numa fila e são enviadas assim que houver cota disponível.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new TinySDK(token, {
+ *   rateLimit: { requestsPerMinute: 60 },
+ * });
+ * ```
+ */
+export interface TinyRateLimitOptions {
+  /**
+   * Número máximo de requisições por minuto permitido pelo plano. Nenhuma
+   * janela de 60 segundos recebe mais que esse número de requisições.
+   */
+  requestsPerMinute: number;
+
+  /**
+   * Número máximo de requisições enviadas de uma vez, sem espaçamento
+   * (padrão: 10% de `requestsPerMinute`, no mínimo 1). Quanto maior a
+   * rajada, menor o ritmo contínuo: `requestsPerMinute - burst + 1` por
+   * minuto, para que a rajada mais o ritmo não excedam a cota.
+   */
+  burst?: number;
+
+  /**
+   * Tempo de espera (ms) quando a API informa que o limite de acessos foi
+   * excedido, antes de reenviar a requisição (padrão: 60000)
+   */
+  blockedBackoffMs?: number;
+
+  /** Número máximo de reenvios após um bloqueio por excesso de acessos (padrão: 3) */
+  maxBlockedRetries?: number;
+}
+
+/**
+ * Política de novas tentativas (retry) para falhas transitórias.
+ *
+ * São consideradas transitórias as falhas de rede, as respostas com status
+ * HTTP em `retryableStatuses` que não trazem um JSON válido e os erros da
+ * API com `codigo_erro` em `retryableErrorCodes`.
+ *
+ * Requisições não idempotentes (`*.incluir.php` e
+ * `produto.atualizar.estoque.php`) só são repetidas quando a
+ * API rejeita explicitamente a requisição com um código em
+ * `retryableErrorCodes`, a menos que `retryNonIdempotent` seja `true`.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new TinySDK(token, {
+ *   retry: { maxAttempts: 5, baseDelayMs: 1000 },
+ * });
+ * ```
+ */
+export interface TinyRetryOptions {
+  /** Número máximo de tentativas, incluindo a primeira (padrão: 3) */
+  maxAttempts?: number;
+
+  /** Espera base do backoff exponencial em milissegundos (padrão: 500) */
+  baseDelayMs?: number;
+
+  /** Espera máxima entre tentativas em milissegundos (padrão: 30000) */
+  maxDelayMs?: number;
+
+  /** Sorteia a espera entre 0 e o valor calculado (padrão: true) */
+  jitter?: boolean;
+
+  /** Valores de `codigo_erro` que justificam nova tentativa (padrão: 6, 11 e 99) */
+  retryableErrorCodes?: Array<string | number>;
+
+  /** Status HTTP que justificam nova tentativa (padrão: 408, 429, 500, 502, 503 e 504) */
+  retryableStatuses?: number[];
+
+  /** Repete também falhas de rede em requisições não idempotentes (padrão: false) */
+  retryNonIdempotent?: boolean;
+}
+
+/**
+ * Contexto de uma tentativa de requisição, entregue aos middlewares.
+ *
+ * `params`, `body` e `headers` são cópias próprias de cada tentativa e
+ * podem ser alterados no `onRequest` antes do envio.
+ */
+export interface TinyRequestContext {
+  /** Endpoint chamado (ex: /produto.obter.php) */
+  readonly endpoint: string;
+
+  /** Método HTTP efetivamente enviado (sempre POST com `tokenLocation: "body"`) */
+  readonly method: "GET" | "POST";
+
+  /** Parâmetros enviados na URL (no corpo, com `tokenLocation: "body"`) */
+  params: Record<string, any>;
+
+  /** Campos enviados no corpo (apenas POST) */
+  body: Record<string, any>;
+
+  /** Cabeçalhos da requisição */
+  headers: Record<string, string>;
+
+  /** Número da tentativa (começa em 1 e aumenta a cada retry) */
+  readonly attempt: number;
+}
+
+/**
+ * Contexto entregue ao `onResponse` quando a API responde com um JSON válido.
+ */
+export interface TinyResponseContext extends TinyRequestContext {
+  /** Status HTTP da resposta */
+  readonly status: number;
+
+  /** Objeto `retorno` bruto, antes de qualquer tratamento (inclusive em erros da API) */
+  readonly retorno: Record<string, any>;
+
+  /** Duração da tentativa em milissegundos */
+  readonly durationMs: number;
+}
+
+/**
+ * Contexto entregue ao `onError` quando uma tentativa falha.
+ */
+export interface TinyErrorContext extends TinyRequestContext {
+  /** Erro que será lançado (ou que levará a uma nova tentativa) */
+  readonly error: unknown;
+
+  /** Duração da tentativa em milissegundos */
+  readonly durationMs: number;
+}
+
+/**
+ * Middleware executado em todas as requisições do cliente HTTP.
+ *
+ * Os ganchos são executados na ordem em que os middlewares foram
+ * registrados, uma vez por tentativa. Exceções lançadas por um gancho
+ * interrompem a requisição.
+ *
+ * @example
+ * ```typescript
+ * const tracing: TinyMiddleware = {
+ *   onRequest: (ctx) => {
+ *     ctx.headers["X-Trace-Id"] = crypto.randomUUID();
+ *   },
+ *   onResponse: (ctx) => {
+ *     metrics.histogram("tiny.latency", ctx.durationMs, { endpoint: ctx.endpoint });
+ *   },
+ *   onError: (ctx) => {
+ *     metrics.increment("tiny.errors", { endpoint: ctx.endpoint });
+ *   },
+ * };
+ *
+ * const sdk = new TinySDK(token, { middleware: [tracing] });
+ * ```
+ */
+export interface TinyMiddleware {
+  /** Executado antes do envio; pode alterar parâmetros, corpo e cabeçalhos */
+  onRequest?(context: TinyRequestContext): void | Promise<void>;
+
+  /** Executado após receber uma resposta JSON, antes da verificação de erros */
+  onResponse?(context: TinyResponseContext): void | Promise<void>;
+
+  /** Executado quando a tentativa falha (rede, timeout, resposta inválida ou erro da API) */
+  onError?(context: TinyErrorContext): void | Promise<void>;
+}
+
+/**
+ * Armazenamento usado pelo cache de respostas do SDK.
+ *
+ * Os métodos podem ser síncronos ou assíncronos, permitindo usar
+ * backends externos (Redis, Memcached, etc.) compartilhados entre
+ * processos. Os valores são objetos serializáveis em JSON.
+ *
+ * @example
+ * ```typescript
+ * const redisStore: TinyCacheStore = {
+ *   get: async (key) => {
+ *     const raw = await redis.get(key);
+ *     return raw ? JSON.parse(raw) : undefined;
+ *   },
+ *   set: async (key, value, ttlMs) => {
+ *     await redis.set(key, JSON.stringify(value), "PX", ttlMs);
+ *   },
+ *   delete: async (key) => {
+ *     await redis.del(key);
+ *   },
+ *   deleteByPrefix: async (prefix) => {
+ *     for await (const keys of redis.scanStream({ match: `${prefix}*` })) {
+ *       if (keys.length) await redis.del(...keys);
+ *     }
+ *   },
+ * };
+ * ```
+ */
+export interface TinyCacheStore {
+  /** Obtém um valor; retorna `undefined` se ausente ou expirado */
+  get(key: string): unknown | Promise<unknown>;
+
+  /** Armazena um valor por `ttlMs` milissegundos */
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+
+  /** Remove um valor */
+  delete(key: string): void | Promise<void>;
+
+  /** Remove todos os valores cujas chaves começam com o prefixo informado */
+  deleteByPrefix(prefix: string): void | Promise<void>;
+}
+
+/**
+ * Configuração do cache de respostas dos endpoints de leitura.
+ *
+ * Por padrão são armazenados `/info.php` (5 minutos), `/produto.obter.php`
+ * e `/contato.obter.php` (1 minuto). As inclusões e alterações feitas pelo
+ * SDK invalidam as respostas armazenadas do mesmo resource.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new TinySDK(token, {
+ *   cache: {
+ *     ttlMs: {
+ *       "/produto.obter.php": 5 * 60_000,
+ *       "/produtos.pesquisa.php": 30_000, // ativa o cache da pesquisa
+ *       "/info.php": 0, // desativa o cache deste endpoint
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface TinyCacheOptions {
+  /** Armazenamento das respostas (padrão: `MemoryCacheStore` com 500 itens) */
+  store?: TinyCacheStore;
+
+  /** Tempo de vida (ms) por endpoint; sobrescreve os padrões e `0` desativa */
+  ttlMs?: Record<string, number>;
+
+  /**
+   * Prefixo das chaves (padrão: `"tiny:"` seguido de um hash curto do
+   * token, distinto para cada conta). Informe um prefixo próprio para
+   * chaves legíveis ou para compartilhar o cache entre tokens da mesma conta.
+   */
+  keyPrefix?: string;
+}
+
+/**
+ * Opções de configuração do SDK e do cliente HTTP.
+ *
+ * Todas as opções são opcionais. Quando omitidas, o SDK usa a URL oficial
+ * da API v2 e o `fetch` global, não aplica limite de tempo às requisições
+ * e não emite logs.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new TinySDK(process.env.TINY_API_TOKEN!, {
+ *   baseUrl: "http://localhost:4010/api2",
+ *   userAgent: "minha-integracao/2.0",
+ *   headers: { "X-Request-Source": "catalog-sync" },
+ *   timeout: 30_000,
+ * });
+ * ```
+ */
+export interface TinySDKOptions {
+  /** URL base da API (padrão: `https://api.tiny.com.br/api2`) */
+  baseUrl?: string;
+
+  /** Implementação de `fetch` a ser usada (padrão: `fetch` global) */
+  fetch?: typeof fetch;
+
+  /** Cabeçalhos enviados em todas as requisições */
+  headers?: Record<string, string>;
+
+  /** Valor do cabeçalho `User-Agent` enviado em todas as requisições */
+  userAgent?: string;
+
+  /** Tempo limite de cada requisição em milissegundos (padrão: sem limite) */
+  timeout?: number;
+
+  /**
+   * Logger para as mensagens internas do SDK (padrão: silencioso).
+   * O token da API é removido de todas as mensagens antes de chegar ao logger.
+   */
+  logger?: TinyLogger;
+
+  /**
+   * Onde enviar o token da API (padrão: `"query"`).
+   *
+   * Com `"body"`, o token e os parâmetros seguem no corpo do formulário e
+   * todas as requisições são enviadas via POST (aceito por todos os
+   * endpoints da API v2), evitando que o token apareça em URLs registradas
+   * por proxies e servidores intermediários.
+   */
+  tokenLocation?: "query" | "body";
+
+  /** Limitador de requisições por minuto (padrão: desativado) */
+  rateLimit?: TinyRateLimitOptions;
+
+  /** Política de novas tentativas para falhas transitórias (padrão: desativada) */
+  retry?: TinyRetryOptions;
+
+  /** Middlewares executados em todas as requisições */
+  middleware?: TinyMiddleware[];
+
+  /** Cache de respostas dos endpoints de leitura (padrão: desativado) */
+  cache?: TinyCacheOptions;
+
+  /**
+   * Compartilha uma única requisição entre chamadas GET simultâneas com o
+   * mesmo endpoint e os mesmos parâmetros (padrão: true). O tempo limite
+   * aplicado é o da primeira chamada.
+   */
+  coalesceRequests?: boolean;
+}
+
+/**
+ * Opções aceitas por chamada em todos os métodos dos resources.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * setTimeout(() => controller.abort(), 5000);
+ *
+ * const product = await sdk.product.getById(123, {
+ *   signal: controller.signal,
+ * });
+ *
+ * // Sobrescreve o timeout global apenas nesta chamada
+ * await sdk.product.search("", {}, { timeout: 60_000 });
+ * ```
+ */
+export interface TinyRequestOptions {
+  /** Sinal para cancelar a requisição (inclusive enquanto aguarda na fila ou entre tentativas) */
+  signal?: AbortSignal;
+
+  /** Tempo limite de cada tentativa em milissegundos (sobrescreve o `timeout` global) */
+  timeout?: number;
+
+  /**
+   * Com `false`, ignora a resposta armazenada no cache e consulta a API
+   * (a nova resposta ainda é armazenada). Padrão: `true`
+   */
+  cache?: boolean;
+}
+
+/**
+ * Opções dos métodos que percorrem todas as páginas de uma pesquisa
+ * (`iterate()` e `searchAll()`).
+ *
+ * Incluem as opções por chamada (`signal`, `timeout`), aplicadas a cada
+ * página obtida.
+ *
+ * @example
+ * ```typescript
+ * const primeiros = await sdk.product.searchAll("", { situacao: "A" }, {
+ *   maxItems: 500,
+ *   concurrency: 4,
+ * });
+ * ```
+ */
+export interface TinyPaginationOptions extends TinyRequestOptions {
+  /** Número máximo de itens entregues (padrão: sem limite) */
+  maxItems?: number;
+
+  /**
+   * Número de páginas obtidas em paralelo após a primeira (padrão: 1).
+   * Os itens continuam sendo entregues na ordem das páginas.
+   */
+  concurrency?: number;
+
+  /**
+   * Chamado sempre que todos os itens de uma página foram processados,
+   * com um checkpoint serializável que pode ser persistido.
+   */
+  onCheckpoint?(checkpoint: TinyPaginationCheckpoint): void | Promise<void>;
+
+  /** Checkpoint de uma execução anterior, para retomar a partir dele */
+  checkpoint?: TinyPaginationCheckpoint;
+}
+
+/**
+ * Opções dos métodos que fazem várias requisições de uma vez, sem
+ * entregar os itens aos poucos (ex: `sdk.product.getStocks()`,
+ * `changesSince()`, `sdk.priceList.getEffectivePrice()`).
+ *
+ * `concurrency` é o número de requisições simultâneas (padrão: 1);
+ * `signal` e `timeout` valem para cada requisição.
+ *
+ * @example
+ * ```typescript
+ * const { produtos } = await sdk.product.stockUpdatesSince(desde, {
+ *   concurrency: 2,
+ *   timeout: 60_000,
+ * });
+ * ```
+ */
+export type TinyBatchOptions = Pick<
+  TinyPaginationOptions,
+  "signal" | "timeout" | "concurrency"
+>;
+
+/**
+ * Ponto de retomada de uma paginação, emitido por `onCheckpoint`.
+ *
+ * É um objeto JSON simples: pode ser gravado em arquivo ou banco de
+ * dados e informado de volta na opção `checkpoint` para continuar uma
+ * exportação interrompida a partir da página seguinte.
+ *
+ * @example
+ * ```typescript
+ * const salvo = await loadCheckpoint(); // TinyPaginationCheckpoint | undefined
+ *
+ * for await (const produto of sdk.product.iterate("", { situacao: "A" }, {
+ *   checkpoint: salvo,
+ *   onCheckpoint: (cp) => saveCheckpoint(cp),
+ * })) {
+ *   await exportar(produto);
+ * }
+ * ```
+ */
+export interface TinyPaginationCheckpoint {
+  /** Termo de busca da pesquisa */
+  pesquisa: string;
+
+  /** Filtros da pesquisa (sem a página), codificados como no envio */
+  filtros: Record<string, string>;
+
+  /** Última página cujos itens foram todos processados */
+  ultimaPagina: number;
+
+  /** Número total de páginas informado pela API */
+  numeroPaginas: number;
+}
+
+/**
+ * Armazenamento persistente das marcas d'água (`HighWaterMark`) usadas
+ * nas sincronizações incrementais.
+ *
+ * Os valores são datas em formato ISO 8601. Os métodos podem ser
+ * síncronos ou assíncronos; um `Map<string, string>` serve como
+ * armazenamento em memória.
+ *
+ * @example
+ * ```typescript
+ * const fileStore: TinyHighWaterMarkStore = {
+ *   get: async (key) => {
+ *     const raw = await fs.readFile(`./marks/${key}`, "utf8").catch(() => "");
+ *     return raw || undefined;
+ *   },
+ *   set: (key, value) => fs.writeFile(`./marks/${key}`, value),
+ * };
+ * ```
+ */
+export interface TinyHighWaterMarkStore {
+  /** Obtém o valor gravado; retorna `undefined` se ausente */
+  get(key: string): string | undefined | Promise<string | undefined>;
+
+  /** Grava o valor */
+  set(key: string, value: string): void | Promise<void>;
+}
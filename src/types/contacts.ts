@@ -33,8 +33,11 @@ export interface ContactSearchOptions {
   /** Data de criação do contato no formato DD/MM/YYYY */
   dataCriacao?: string;
 
-  /** Data mínima de atualização do contato no formato DD/MM/YYYY */
-  dataMinimaAtualizacao?: string;
+  /**
+   * Data mínima de atualização do contato no formato DD/MM/YYYY (com
+   * horário opcional, hh:mm:ss) ou como `Date`
+   */
+  dataMinimaAtualizacao?: string | Date;
 }
 
 /**
@@ -822,3 +825,46 @@ export interface ContactUpdateEntry {
   /** Dados do contato a ser atualizado */
   data: ContactUpdateInput;
 }
+
+/**
+ * Opções de `changesSince()`.
+ *
+ * Aceita os mesmos filtros da pesquisa de contatos, exceto a página e a
+ * data mínima de atualização, que são controladas pelo método.
+ */
+export interface ContactChangesOptions extends Omit<
+  ContactSearchOptions,
+  "pagina" | "dataMinimaAtualizacao"
+> {
+  /** Termo de busca (padrão: vazio, todos os contatos) */
+  pesquisa?: string;
+
+  /**
+   * Obtém os detalhes completos de cada contato alterado via `getById()`
+   * (padrão: false)
+   */
+  hydrate?: boolean;
+}
+
+/**
+ * Resultado de `changesSince()`.
+ *
+ * @template T Contato resumido (`Contact`) ou detalhado (`ContactDetails`,
+ * com `hydrate: true`)
+ */
+export interface ContactChangesResult<T> {
+  /** Contatos atualizados desde a data informada (sem repetições) */
+  contatos: T[];
+
+  /**
+   * Data a informar na próxima chamada: o instante em que esta consulta
+   * começou, recuado de `SYNC_OVERLAP_MS`
+   */
+  proximaConsulta: Date;
+
+  /**
+   * IDs dos contatos excluídos entre a listagem e a obtenção dos detalhes,
+   * omitidos de `contatos` (apenas com `hydrate: true`)
+   */
+  removidos?: number[];
+}
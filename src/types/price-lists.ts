@@ -0,0 +1,143 @@
+/**
+ * Representa uma lista de preços. (Baseado em retorno.registros[].registro)
+ *
+ * @interface PriceList
+ * @property {number} id - Identificador único da lista de preços
+ * @property {string} descricao - Descrição da lista de preços
+ * @property {number} acrescimo_desconto - Percentual aplicado sobre o preço do produto (positivo para acréscimo, negativo para desconto)
+ */
+export interface PriceList {
+  id: number;
+  descricao: string;
+  acrescimo_desconto: number;
+}
+
+/**
+ * Preço específico de um produto em uma lista de preços, que substitui o
+ * percentual da lista. (Baseado em retorno.registros[].registro)
+ *
+ * @interface PriceListException
+ * @property {number} id_produto - ID do produto
+ * @property {number} preco - Preço do produto nesta lista
+ */
+export interface PriceListException {
+  id_produto: number;
+  preco: number;
+}
+
+/**
+ * Opções de paginação para pesquisa de listas de preços.
+ *
+ * @interface PriceListsSearchOptions
+ * @property {number} [pagina] - Número da página para paginação (começa em 1)
+ */
+export interface PriceListsSearchOptions {
+  pagina?: number;
+}
+
+/**
+ * Opções de paginação para as exceções de uma lista de preços.
+ *
+ * @interface PriceListExceptionsOptions
+ * @property {number} [pagina] - Número da página para paginação (começa em 1)
+ */
+export interface PriceListExceptionsOptions {
+  pagina?: number;
+}
+
+/**
+ * Lista de preços como retornada pela API, com o percentual em string.
+ * @internal
+ */
+interface ApiPriceList {
+  id: number | string;
+  descricao: string;
+  acrescimo_desconto: number | string;
+}
+
+/**
+ * Exceção como retornada pela API, com IDs e preço em string.
+ * @internal
+ */
+interface ApiPriceListException {
+  id_produto: number | string;
+  preco: number | string;
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do endpoint /listas.precos.pesquisa.php
+ *
+ * @interface PriceListSearchSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {number} pagina - Página atual dos resultados
+ * @property {number} numero_paginas - Número total de páginas disponíveis
+ * @property {{ registro: ApiPriceList }[]} registros - Array de listas de preços encapsuladas
+ */
+export interface PriceListSearchSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  pagina: number;
+  numero_paginas: number;
+  registros: { registro: ApiPriceList }[];
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do endpoint /listas.precos.excecoes.php
+ *
+ * @interface PriceListExceptionsSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {number} pagina - Página atual dos resultados
+ * @property {number} numero_paginas - Número total de páginas disponíveis
+ * @property {{ registro: ApiPriceListException }[]} registros - Array de exceções encapsuladas
+ */
+export interface PriceListExceptionsSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  pagina: number;
+  numero_paginas: number;
+  registros: { registro: ApiPriceListException }[];
+}
+
+/**
+ * Resultado "limpo" da pesquisa de listas de preços.
+ *
+ * @interface PaginatedPriceListsResponse
+ * @property {PriceList[]} listas - Array de listas de preços (desencapsuladas)
+ * @property {number} pagina - Página atual dos resultados
+ * @property {number} numero_paginas - Número total de páginas disponíveis
+ */
+export interface PaginatedPriceListsResponse {
+  listas: PriceList[];
+  pagina: number;
+  numero_paginas: number;
+}
+
+/**
+ * Resultado "limpo" de uma página de exceções de uma lista de preços.
+ *
+ * @interface PaginatedPriceListExceptionsResponse
+ * @property {PriceListException[]} excecoes - Array de exceções (desencapsuladas)
+ * @property {number} pagina - Página atual dos resultados
+ * @property {number} numero_paginas - Número total de páginas disponíveis
+ */
+export interface PaginatedPriceListExceptionsResponse {
+  excecoes: PriceListException[];
+  pagina: number;
+  numero_paginas: number;
+}
+
+/**
+ * Preço efetivo de um produto para um contato.
+ *
+ * @interface EffectivePrice
+ * @property {number} preco - Preço a ser praticado
+ * @property {"produto" | "lista" | "excecao"} origem - De onde veio o preço: o preço do produto (contato sem lista), o percentual da lista ou uma exceção da lista
+ * @property {PriceList} [lista] - Lista de preços do contato (ausente quando `origem` é "produto")
+ */
+export interface EffectivePrice {
+  preco: number;
+  origem: "produto" | "lista" | "excecao";
+  lista?: PriceList;
+}
@@ -1,3 +1,5 @@
+import type { Tag } from "./tags.js";
+
 /**
  * Representa o "Resumo do Produto" (Product Summary) retornado pelas rotas
  * de pesquisa. (Baseado em retorno.produtos[].produto)
@@ -541,7 +543,7 @@ export interface ProductVariationInput {
  * @property {number} [largura_embalagem] - Largura da embalagem em cm
  * @property {number} [comprimento_embalagem] - Comprimento da embalagem em cm
  * @property {number} [diametro_embalagem] - Diâmetro da embalagem em cm (para embalagens cilíndricas)
- * @property {string} [categoria] - Categoria do produto
+ * @property {string} [categoria] - Caminho completo da categoria (ex: "Roupas >> Camisetas"; veja `flattenCategoryTree()`)
  * @property {"S" | "K" | "V" | "F" | "M"} [classe_produto] - Classe: "S" (Simples), "K" (Kit), "V" (Variável), "F" (Fabricado), "M" (Matéria-prima)
  *
  * @property {ProductStructureItemInput[]} [estrutura] - Itens da estrutura (para produtos fabricados)
@@ -697,3 +699,443 @@ export interface ProductCreateSuccessResponse {
   status: "OK";
   registros: ApiProductCreateRecordWrapper[];
 }
+
+/**
+ * Interface "limpa" para os DADOS DE ENTRADA da alteração de um produto.
+ *
+ * Todos os campos de `ProductCreateInput` são opcionais: apenas os campos
+ * informados são alterados. É obrigatório informar o `id` ou o `codigo`
+ * do produto a ser alterado.
+ *
+ * @example
+ * ```typescript
+ * const porId: ProductUpdateInput = { id: 12345, preco: 3299.9 };
+ * const porCodigo: ProductUpdateInput = { codigo: "DELL-INS15", situacao: "I" };
+ * ```
+ */
+export type ProductUpdateInput = Partial<ProductCreateInput> &
+  ({ id: number } | { codigo: string });
+
+/**
+ * Representa a entrada de lote (batch) que o nosso método `update` espera.
+ *
+ * @interface ProductUpdateEntry
+ * @property {number} sequencia - Número de sequência único para identificar o produto no lote
+ * @property {ProductUpdateInput} data - Dados do produto a ser alterado (id ou codigo obrigatório)
+ */
+export interface ProductUpdateEntry {
+  sequencia: number;
+  data: ProductUpdateInput;
+}
+
+/**
+ * Saldo de um produto em um depósito (limpo).
+ * (Baseado em retorno.produto.depositos[].deposito)
+ *
+ * @interface ProductStockDeposit
+ * @property {string} nome - Nome do depósito
+ * @property {"S" | "N"} desconsiderar - "S" quando o saldo do depósito é desconsiderado no saldo total
+ * @property {number} saldo - Saldo do produto no depósito
+ * @property {string} empresa - Empresa (filial) dona do depósito
+ */
+export interface ProductStockDeposit {
+  nome: string;
+  desconsiderar: "S" | "N";
+  saldo: number;
+  empresa: string;
+}
+
+/**
+ * Estoque de um produto (limpo), com o saldo total e por depósito.
+ *
+ * @interface ProductStock
+ * @property {number} id - ID do produto
+ * @property {string} nome - Nome do produto
+ * @property {string} codigo - Código (SKU) do produto
+ * @property {string} unidade - Unidade de medida
+ * @property {number} saldo - Saldo total (soma dos depósitos não desconsiderados)
+ * @property {number} saldoReservado - Quantidade reservada (ex: pedidos em aberto)
+ * @property {ProductStockDeposit[]} depositos - Saldo em cada depósito
+ */
+export interface ProductStock {
+  id: number;
+  nome: string;
+  codigo: string;
+  unidade: string;
+  saldo: number;
+  saldoReservado: number;
+  depositos: ProductStockDeposit[];
+}
+
+/**
+ * Estoque do produto como retornado pela API, com os depósitos
+ * encapsulados.
+ *
+ * @internal
+ */
+interface ApiProductStock extends Omit<ProductStock, "depositos"> {
+  depositos?: { deposito: ProductStockDeposit }[];
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do /produto.obter.estoque.php
+ * (baseado em `retorno`)
+ *
+ * @interface ApiProductStockSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {ApiProductStock} produto - Estoque do produto com os depósitos encapsulados
+ */
+export interface ApiProductStockSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  produto: ApiProductStock;
+}
+
+/**
+ * Interface "limpa" para os DADOS DE ENTRADA de uma movimentação de estoque.
+ * (Baseado em estoque, de /produto.atualizar.estoque.php)
+ *
+ * @interface ProductStockUpdateInput
+ * @property {number} idProduto - ID do produto movimentado
+ * @property {"E" | "S" | "B"} tipo - Tipo da movimentação: "E" (entrada), "S" (saída) ou "B" (balanço, define o saldo)
+ * @property {number} quantidade - Quantidade movimentada (ou o novo saldo, no balanço)
+ * @property {number} [precoUnitario] - Preço unitário da movimentação
+ * @property {string} [deposito] - Nome do depósito (padrão: depósito padrão da conta)
+ * @property {string} [observacoes] - Observações da movimentação
+ * @property {Date | string} [data] - Data da movimentação (padrão: agora); strings no formato "dd/mm/aaaa hh:mm:ss"
+ */
+export interface ProductStockUpdateInput {
+  idProduto: number;
+  tipo: "E" | "S" | "B";
+  quantidade: number;
+  precoUnitario?: number;
+  deposito?: string;
+  observacoes?: string;
+  data?: Date | string;
+}
+
+/**
+ * Resultado de uma movimentação de estoque (limpo).
+ *
+ * @interface ProductStockUpdateResult
+ * @property {number} id - ID do produto movimentado
+ * @property {number} saldoEstoque - Saldo do produto após a movimentação
+ */
+export interface ProductStockUpdateResult {
+  id: number;
+  saldoEstoque: number;
+}
+
+/**
+ * Registro de uma movimentação de estoque como retornado pela API.
+ *
+ * @internal
+ */
+interface ApiProductStockUpdateRecord {
+  sequencia?: number;
+  status: "OK" | "Erro";
+  id?: number | string;
+  saldoEstoque?: number | string;
+  codigo_erro?: number;
+  erros?: ProductErrorDetail[];
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do /produto.atualizar.estoque.php
+ * (baseado em `retorno`)
+ *
+ * @interface ApiProductStockUpdateSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {{ registro: ApiProductStockUpdateRecord }[]} registros - Registro encapsulado da movimentação
+ */
+export interface ApiProductStockUpdateSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  registros: { registro: ApiProductStockUpdateRecord }[];
+}
+
+/**
+ * Atualização de estoque de um produto (limpa), como listada por
+ * /lista.atualizacoes.estoque.php.
+ *
+ * @interface ProductStockChange
+ * @property {string} tipo_variacao - "N" (normal), "P" (produto pai) ou "V" (variação)
+ * @property {string} localizacao - Localização física do produto
+ * @property {string} data_alteracao - Data da última alteração do estoque ("dd/mm/aaaa hh:mm:ss")
+ */
+export interface ProductStockChange extends ProductStock {
+  tipo_variacao: string;
+  localizacao: string;
+  data_alteracao: string;
+}
+
+/**
+ * Atualização de estoque como retornada pela API, com os depósitos
+ * encapsulados.
+ *
+ * @internal
+ */
+interface ApiProductStockChange extends Omit<ProductStockChange, "depositos"> {
+  depositos?: { deposito: ProductStockDeposit }[];
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do /lista.atualizacoes.estoque.php
+ * (baseado em `retorno`)
+ *
+ * @interface ApiProductStockChangesResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {number} pagina - Página atual
+ * @property {number} numero_paginas - Número total de páginas
+ * @property {{ produto: ApiProductStockChange }[]} produtos - Atualizações encapsuladas
+ */
+export interface ApiProductStockChangesResponse {
+  status_processamento: number;
+  status: "OK";
+  pagina: number;
+  numero_paginas: number;
+  produtos: { produto: ApiProductStockChange }[];
+}
+
+/**
+ * Resultado de `stockUpdatesSince()`.
+ *
+ * @interface ProductStockChangesResult
+ * @property {ProductStockChange[]} produtos - Produtos com estoque alterado, sem repetições
+ * @property {Date} proximaConsulta - Data a informar na próxima consulta incremental (início desta consulta, recuado de `SYNC_OVERLAP_MS`)
+ */
+export interface ProductStockChangesResult {
+  produtos: ProductStockChange[];
+  proximaConsulta: Date;
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do /lista.atualizacoes.produtos.php
+ * (baseado em `retorno`)
+ *
+ * @interface ApiProductChangesResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {number} pagina - Página atual
+ * @property {number} numero_paginas - Número total de páginas
+ * @property {{ produto: Product }[]} produtos - Produtos alterados, encapsulados
+ */
+export interface ApiProductChangesResponse {
+  status_processamento: number;
+  status: "OK";
+  pagina: number;
+  numero_paginas: number;
+  produtos: { produto: Product }[];
+}
+
+/**
+ * Opções de `changesSince()`.
+ */
+export interface ProductChangesOptions {
+  /**
+   * Obtém os detalhes completos de cada produto alterado via `getById()`
+   * (padrão: false)
+   */
+  hydrate?: boolean;
+}
+
+/**
+ * Resultado de `changesSince()`.
+ *
+ * @template T Produto resumido (`Product`) ou detalhado (`ProductDetails`,
+ * com `hydrate: true`)
+ */
+export interface ProductChangesResult<T> {
+  /** Produtos alterados desde a data informada (sem repetições) */
+  produtos: T[];
+
+  /**
+   * Data a informar na próxima chamada: o instante em que esta consulta
+   * começou, recuado de `SYNC_OVERLAP_MS`
+   */
+  proximaConsulta: Date;
+
+  /**
+   * IDs dos produtos excluídos entre a listagem e a obtenção dos detalhes,
+   * omitidos de `produtos` (apenas com `hydrate: true`)
+   */
+  removidos?: number[];
+}
+
+/**
+ * Item (componente) da estrutura de um produto fabricado (limpo).
+ * (Baseado em retorno.produto.estrutura[].item)
+ *
+ * @interface ProductStructureItem
+ * @property {number} id_produto - ID do produto componente
+ * @property {string} codigo - Código do produto componente
+ * @property {string} descricao - Descrição do item na estrutura
+ * @property {number} quantidade - Quantidade do componente por unidade produzida
+ */
+export interface ProductStructureItem {
+  id_produto: number;
+  codigo: string;
+  descricao: string;
+  quantidade: number;
+}
+
+/**
+ * Etapa de produção de um produto fabricado (limpa).
+ * (Baseado em retorno.produto.etapas[].etapa)
+ *
+ * @interface ProductProductionStage
+ * @property {string} nome - Nome da etapa de produção
+ */
+export interface ProductProductionStage {
+  nome: string;
+}
+
+/**
+ * Estrutura de produção de um produto fabricado (limpa).
+ *
+ * @interface ProductStructure
+ * @property {number} id - ID do produto fabricado
+ * @property {string} nome - Nome do produto
+ * @property {string} codigo - Código (SKU) do produto
+ * @property {ProductStructureItem[]} estrutura - Componentes (lista de materiais)
+ * @property {ProductProductionStage[]} etapas - Etapas de produção, na ordem
+ */
+export interface ProductStructure {
+  id: number;
+  nome: string;
+  codigo: string;
+  estrutura: ProductStructureItem[];
+  etapas: ProductProductionStage[];
+}
+
+/**
+ * Estrutura do produto como retornada pela API, com os itens e etapas
+ * encapsulados.
+ *
+ * @internal
+ */
+interface ApiProductStructure extends Omit<
+  ProductStructure,
+  "estrutura" | "etapas"
+> {
+  estrutura?: {
+    item: Omit<ProductStructureItem, "quantidade"> & {
+      quantidade: number | string;
+    };
+  }[];
+  etapas?: { etapa: ProductProductionStage }[];
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do /produto.obter.estrutura.php
+ * (baseado em `retorno`)
+ *
+ * @interface ApiProductStructureSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {ApiProductStructure} produto - Estrutura do produto com os itens e etapas encapsulados
+ */
+export interface ApiProductStructureSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  produto: ApiProductStructure;
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do /produto.obter.tags.php
+ * (baseado em `retorno`)
+ *
+ * @interface ApiProductTagsSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {{ id: number; tags?: { tag: Tag }[] }} produto - ID do produto e suas tags encapsuladas
+ */
+export interface ApiProductTagsSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  produto: {
+    id: number;
+    tags?: { tag: Tag }[];
+  };
+}
+
+/**
+ * Dados de entrada para a atualização de preços de um produto, identificado
+ * pelo `id` ou pelo `codigo`.
+ * (Baseado em precos[], de /produto.atualizar.precos.php)
+ *
+ * @example
+ * ```typescript
+ * const porId: ProductPriceUpdateInput = { id: 12345, preco: 99.9 };
+ * const porCodigo: ProductPriceUpdateInput = {
+ *   codigo: "CAM-01",
+ *   preco: 59.9,
+ *   preco_promocional: 49.9,
+ * };
+ * ```
+ */
+export type ProductPriceUpdateInput = ({ id: number } | { codigo: string }) & {
+  /** Preço de venda */
+  preco: number;
+
+  /** Preço promocional */
+  preco_promocional?: number;
+};
+
+/**
+ * Nó da árvore de categorias de produtos (limpo).
+ * (Baseado em produtos.categorias.arvore.php)
+ *
+ * @interface ProductCategory
+ * @property {number} id - ID da categoria
+ * @property {string} descricao - Nome da categoria (apenas o nível, sem os ancestrais)
+ * @property {ProductCategory[]} nodes - Subcategorias (vazio nas folhas)
+ */
+export interface ProductCategory {
+  id: number;
+  descricao: string;
+  nodes: ProductCategory[];
+}
+
+/**
+ * Categoria com o caminho completo, como retornada por
+ * `flattenCategoryTree()`.
+ *
+ * @interface ProductCategoryPath
+ * @property {number} id - ID da categoria
+ * @property {string} caminho - Caminho completo no formato do campo `categoria` (ex: "Roupas >> Camisetas >> Manga Curta")
+ * @property {ProductCategory} categoria - O nó da árvore
+ */
+export interface ProductCategoryPath {
+  id: number;
+  caminho: string;
+  categoria: ProductCategory;
+}
+
+/**
+ * Nó da árvore de categorias como retornado pela API (IDs podem vir como
+ * texto e `nodes` pode ser omitido nas folhas).
+ *
+ * @internal
+ */
+interface ApiProductCategory {
+  id: number | string;
+  descricao: string;
+  nodes?: ApiProductCategory[];
+}
+
+/**
+ * Resposta do /produtos.categorias.arvore.php, que retorna o array de
+ * categorias sem o objeto `retorno` (normalizado pelo cliente HTTP).
+ *
+ * @interface ApiProductCategoryTreeResponse
+ * @property {"OK"} status - Status da operação
+ * @property {ApiProductCategory[]} itens - Categorias de primeiro nível
+ */
+export interface ApiProductCategoryTreeResponse {
+  status: "OK";
+  itens: ApiProductCategory[];
+}
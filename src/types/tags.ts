@@ -0,0 +1,191 @@
+/**
+ * Representa uma tag de produto. (Baseado em retorno.tags[].tag)
+ *
+ * @interface Tag
+ * @property {number} id - Identificador único da tag
+ * @property {string} nome - Nome da tag
+ * @property {number} id_grupo - ID do grupo ao qual a tag pertence
+ */
+export interface Tag {
+  id: number;
+  nome: string;
+  id_grupo: number;
+}
+
+/**
+ * Representa um grupo de tags. (Baseado em retorno.grupos[].grupo)
+ *
+ * @interface TagGroup
+ * @property {number} id - Identificador único do grupo
+ * @property {string} nome - Nome do grupo
+ */
+export interface TagGroup {
+  id: number;
+  nome: string;
+}
+
+/**
+ * Opções de filtro e paginação para pesquisa de tags.
+ *
+ * @interface TagsSearchOptions
+ * @property {number} [idGrupo] - Filtrar pelo ID do grupo de tags
+ * @property {number} [pagina] - Número da página para paginação (começa em 1)
+ */
+export interface TagsSearchOptions {
+  idGrupo?: number;
+  pagina?: number;
+}
+
+/**
+ * Opções de paginação para pesquisa de grupos de tags.
+ *
+ * @interface TagGroupsSearchOptions
+ * @property {number} [pagina] - Número da página para paginação (começa em 1)
+ */
+export interface TagGroupsSearchOptions {
+  pagina?: number;
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do endpoint /tags.pesquisa.php
+ *
+ * @interface TagSearchSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {number} pagina - Página atual dos resultados
+ * @property {number} numero_paginas - Número total de páginas disponíveis
+ * @property {{ tag: Tag }[]} tags - Array de tags encapsuladas
+ */
+export interface TagSearchSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  pagina: number;
+  numero_paginas: number;
+  tags: { tag: Tag }[];
+}
+
+/**
+ * Resultado "limpo" da pesquisa de tags.
+ *
+ * @interface PaginatedTagsResponse
+ * @property {Tag[]} tags - Array de tags (desencapsuladas)
+ * @property {number} pagina - Página atual dos resultados
+ * @property {number} numero_paginas - Número total de páginas disponíveis
+ */
+export interface PaginatedTagsResponse {
+  tags: Tag[];
+  pagina: number;
+  numero_paginas: number;
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do endpoint /grupos.tags.pesquisa.php
+ *
+ * @interface TagGroupSearchSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {number} pagina - Página atual dos resultados
+ * @property {number} numero_paginas - Número total de páginas disponíveis
+ * @property {{ grupo: TagGroup }[]} grupos - Array de grupos encapsulados
+ */
+export interface TagGroupSearchSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  pagina: number;
+  numero_paginas: number;
+  grupos: { grupo: TagGroup }[];
+}
+
+/**
+ * Resultado "limpo" da pesquisa de grupos de tags.
+ *
+ * @interface PaginatedTagGroupsResponse
+ * @property {TagGroup[]} grupos - Array de grupos (desencapsulados)
+ * @property {number} pagina - Página atual dos resultados
+ * @property {number} numero_paginas - Número total de páginas disponíveis
+ */
+export interface PaginatedTagGroupsResponse {
+  grupos: TagGroup[];
+  pagina: number;
+  numero_paginas: number;
+}
+
+/**
+ * Dados de entrada para a criação de uma tag.
+ *
+ * @interface TagCreateInput
+ * @property {string} nome - Nome da tag
+ * @property {number} id_grupo - ID do grupo ao qual a tag pertence
+ */
+export interface TagCreateInput {
+  nome: string;
+  id_grupo: number;
+}
+
+/**
+ * Entrada de lote (batch) para a criação de tags.
+ *
+ * @interface TagCreateEntry
+ * @property {number} sequencia - Número de sequência único para identificar a tag no lote
+ * @property {TagCreateInput} data - Dados da tag a ser criada
+ */
+export interface TagCreateEntry {
+  sequencia: number;
+  data: TagCreateInput;
+}
+
+/**
+ * Dados de entrada para a criação de um grupo de tags.
+ *
+ * @interface TagGroupCreateInput
+ * @property {string} nome - Nome do grupo
+ */
+export interface TagGroupCreateInput {
+  nome: string;
+}
+
+/**
+ * Entrada de lote (batch) para a criação de grupos de tags.
+ *
+ * @interface TagGroupCreateEntry
+ * @property {number} sequencia - Número de sequência único para identificar o grupo no lote
+ * @property {TagGroupCreateInput} data - Dados do grupo a ser criado
+ */
+export interface TagGroupCreateEntry {
+  sequencia: number;
+  data: TagGroupCreateInput;
+}
+
+/**
+ * Resultado da criação de uma tag ou grupo no lote (limpo).
+ * (Baseado em retorno.registros[].registro)
+ *
+ * @interface TagCreateResultRecord
+ * @property {number} sequencia - Número de sequência no lote
+ * @property {"OK" | "Erro"} status - Status da operação: "OK" (sucesso) ou "Erro" (falha)
+ * @property {number} [id] - ID da tag ou grupo criado (presente apenas se status="OK")
+ * @property {number} [codigo_erro] - Código do erro (presente apenas se status="Erro")
+ * @property {{ erro: string }[]} [erros] - Lista de erros detalhados (presente apenas se status="Erro")
+ */
+export interface TagCreateResultRecord {
+  sequencia: number;
+  status: "OK" | "Erro";
+  id?: number;
+  codigo_erro?: number;
+  erros?: { erro: string }[];
+}
+
+/**
+ * Representa a resposta de SUCESSO completa do /tag.incluir.php e do
+ * /grupo.tag.incluir.php (baseado em `retorno`)
+ *
+ * @interface TagCreateSuccessResponse
+ * @property {number} status_processamento - Código de status do processamento
+ * @property {"OK"} status - Status da operação (sempre "OK" em caso de sucesso)
+ * @property {{ registro: TagCreateResultRecord }[]} registros - Registros encapsulados com os resultados
+ */
+export interface TagCreateSuccessResponse {
+  status_processamento: number;
+  status: "OK";
+  registros: { registro: TagCreateResultRecord }[];
+}